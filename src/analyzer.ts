@@ -1,25 +1,281 @@
-import * as esprima from 'esprima';
+import { parse, ParserPlugin } from '@babel/parser';
+import { logError } from './logger';
 
-export function analyzeCode(code: string): { hasFunctions: boolean; functionNames: string[] } {
+export type CallableKind =
+  | 'function'
+  | 'function-expression'
+  | 'arrow'
+  | 'method'
+  | 'constructor'
+  | 'getter'
+  | 'setter';
+
+/**
+ * A function, method or arrow function found in the analyzed code
+ */
+export interface CallableUnit {
+  /** Best-effort name, e.g. `save`, `UserService.save` or `exports.save`; `<anonymous>` for inline callbacks */
+  name: string;
+  kind: CallableKind;
+  /** 1-based line, 0-based column */
+  location: { line: number; column: number; endLine: number; endColumn: number };
+  params: string[];
+  async: boolean;
+  generator: boolean;
+}
+
+export type BrowserStorageApi = 'localStorage' | 'sessionStorage' | 'indexedDB';
+
+/**
+ * A use of browser storage, whose data a canister has to take over
+ */
+export interface StorageAccess {
+  api: BrowserStorageApi;
+  /** The method or property used, e.g. `getItem` or `open`; `[]` for computed access such as `localStorage[key]` */
+  operation: string;
+  /** 1-based line */
+  line: number;
+}
+
+export interface CodeAnalysis {
+  hasFunctions: boolean;
+  /** Names of the named callables, in source order */
+  functionNames: string[];
+  callables: CallableUnit[];
+  storageAccesses: StorageAccess[];
+}
+
+export const ANONYMOUS = '<anonymous>';
+
+const STORAGE_APIS = new Set<string>(['localStorage', 'sessionStorage', 'indexedDB']);
+
+/**
+ * Reads the storage API an expression refers to: `localStorage`, or `window.localStorage` and the like
+ */
+function storageApiOf(node: any): BrowserStorageApi | undefined {
+  if (node.type === 'Identifier' && STORAGE_APIS.has(node.name)) {
+    return node.name;
+  }
+  if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') && !node.computed &&
+    node.object.type === 'Identifier' && ['window', 'globalThis', 'self'].includes(node.object.name) && STORAGE_APIS.has(node.property.name)) {
+    return node.property.name;
+  }
+  return undefined;
+}
+
+/**
+ * Picks the parser plugins for a file. Plain JavaScript is parsed as JSX first and falls
+ * back to TypeScript, so unsaved or extensionless editors still work.
+ */
+function getPluginCandidates(filePath?: string): ParserPlugin[][] {
+  const common: ParserPlugin[] = ['decorators-legacy'];
+  if (filePath && /\.(ts|mts|cts)$/.test(filePath)) {
+    return [[...common, 'typescript']];
+  }
+  if (filePath && /\.tsx$/.test(filePath)) {
+    return [[...common, 'typescript', 'jsx']];
+  }
+  return [[...common, 'jsx'], [...common, 'typescript', 'jsx'], [...common, 'typescript']];
+}
+
+/**
+ * Parses with each plugin set in turn and keeps the first clean result. Recoverable errors
+ * are tolerated if no plugin set parses cleanly, so a single typo does not hide every function.
+ */
+function parseSource(code: string, filePath?: string): any {
+  let best: any;
+  let lastError: unknown;
+  for (const plugins of getPluginCandidates(filePath)) {
+    try {
+      const ast = parse(code, {
+        sourceType: 'unambiguous',
+        plugins,
+        allowReturnOutsideFunction: true,
+        allowAwaitOutsideFunction: true,
+        errorRecovery: true
+      });
+      const errorCount = ast.errors?.length ?? 0;
+      if (errorCount === 0) {
+        return ast;
+      }
+      if (!best || errorCount < best.errors.length) {
+        best = ast;
+      }
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (best) {
+    return best;
+  }
+  throw lastError;
+}
+
+/**
+ * Turns a property key or member expression into a readable name
+ */
+function nameOf(node: any, code: string): string | undefined {
+  if (!node) return undefined;
+  switch (node.type) {
+    case 'Identifier':
+    case 'PrivateName':
+      return node.type === 'PrivateName' ? `#${node.id.name}` : node.name;
+    case 'StringLiteral':
+      return node.value;
+    case 'NumericLiteral':
+      return String(node.value);
+    case 'ThisExpression':
+      return 'this';
+    case 'MemberExpression': {
+      const object = nameOf(node.object, code);
+      const property = node.computed ? `[${code.slice(node.property.start, node.property.end)}]` : nameOf(node.property, code);
+      return object && property ? `${object}${node.computed ? '' : '.'}${property}` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function describeParam(param: any, code: string): string {
+  switch (param.type) {
+    case 'Identifier':
+      return param.name;
+    case 'AssignmentPattern':
+      return describeParam(param.left, code);
+    case 'RestElement':
+      return `...${describeParam(param.argument, code)}`;
+    case 'TSParameterProperty':
+      return describeParam(param.parameter, code);
+    default: {
+      // Destructuring patterns keep their source text, without the type annotation
+      const end = param.typeAnnotation ? param.typeAnnotation.start : param.end;
+      return code.slice(param.start, end).trim();
+    }
+  }
+}
+
+/**
+ * Names a function expression or arrow function from where it appears
+ */
+function nameFromParent(parent: any, className: string | undefined, code: string): string | undefined {
+  if (!parent) return undefined;
+  switch (parent.type) {
+    case 'VariableDeclarator':
+      return nameOf(parent.id, code);
+    case 'AssignmentExpression':
+      return nameOf(parent.left, code);
+    case 'ObjectProperty':
+      return nameOf(parent.key, code);
+    case 'ClassProperty':
+    case 'ClassPrivateProperty': {
+      const name = nameOf(parent.key, code);
+      return className && name ? `${className}.${name}` : name;
+    }
+    case 'ExportDefaultDeclaration':
+      return 'default';
+    default:
+      return undefined;
+  }
+}
+
+function kindOf(node: any): CallableKind | undefined {
+  switch (node.type) {
+    case 'FunctionDeclaration':
+      return 'function';
+    case 'FunctionExpression':
+      return 'function-expression';
+    case 'ArrowFunctionExpression':
+      return 'arrow';
+    case 'ObjectMethod':
+    case 'ClassMethod':
+    case 'ClassPrivateMethod':
+      if (node.kind === 'get') return 'getter';
+      if (node.kind === 'set') return 'setter';
+      if (node.kind === 'constructor') return 'constructor';
+      return 'method';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Finds every callable unit in JavaScript, TypeScript or JSX code, in script or module form
+ * @param filePath Used to choose the TypeScript/JSX parser plugins
+ */
+export function analyzeCode(code: string, filePath?: string): CodeAnalysis {
+  const callables: CallableUnit[] = [];
+  const storageAccesses: StorageAccess[] = [];
+
+  let ast: any;
   try {
-    const ast = esprima.parseScript(code);
-    const functionNames: string[] = [];
+    ast = parseSource(code, filePath);
+  } catch (error) {
+    logError('Error analyzing code:', error);
+    return { hasFunctions: false, functionNames: [], callables, storageAccesses };
+  }
 
-    function traverse(node: any) {
+  function traverse(node: any, parent: any, className: string | undefined) {
+    // Overload signatures (TSDeclareFunction) have no body and are not callable units of their own
+    const kind = kindOf(node);
+    if (kind) {
+      let name: string | undefined;
       if (node.type === 'FunctionDeclaration') {
-        functionNames.push(node.id.name);
+        name = node.id?.name ?? (parent?.type === 'ExportDefaultDeclaration' ? 'default' : undefined);
+      } else if (node.type === 'ObjectMethod') {
+        name = nameOf(node.key, code);
+      } else if (node.type === 'ClassMethod' || node.type === 'ClassPrivateMethod') {
+        const methodName = nameOf(node.key, code);
+        name = className && methodName ? `${className}.${methodName}` : methodName;
+      } else {
+        name = node.id?.name ?? nameFromParent(parent, className, code);
       }
-      for (const key in node) {
-        if (node[key] && typeof node[key] === 'object') {
-          traverse(node[key]);
-        }
+
+      callables.push({
+        name: name ?? ANONYMOUS,
+        kind,
+        location: {
+          line: node.loc.start.line,
+          column: node.loc.start.column,
+          endLine: node.loc.end.line,
+          endColumn: node.loc.end.column
+        },
+        params: node.params.map((param: any) => describeParam(param, code)),
+        async: Boolean(node.async),
+        generator: Boolean(node.generator)
+      });
+    }
+
+    if (node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') {
+      const api = storageApiOf(node.object);
+      if (api) {
+        storageAccesses.push({
+          api,
+          operation: node.computed ? '[]' : node.property.name ?? '[]',
+          line: node.loc.start.line
+        });
       }
     }
 
-    traverse(ast);
-    return { hasFunctions: functionNames.length > 0, functionNames };
-  } catch (error) {
-    console.error('Error analyzing code:', error);
-    return { hasFunctions: false, functionNames: [] };
+    let nextClassName = className;
+    if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+      nextClassName = node.id?.name ?? nameFromParent(parent, className, code);
+    }
+
+    for (const key in node) {
+      if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'innerComments') {
+        continue;
+      }
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(item => item && typeof item.type === 'string' && traverse(item, node, nextClassName));
+      } else if (child && typeof child.type === 'string') {
+        traverse(child, node, nextClassName);
+      }
+    }
   }
-}
\ No newline at end of file
+
+  traverse(ast.program, undefined, undefined);
+
+  const functionNames = callables.filter(c => c.name !== ANONYMOUS).map(c => c.name);
+  return { hasFunctions: callables.length > 0, functionNames, callables, storageAccesses };
+}
@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getClientConfigPath } from './client-config';
+
+const fsPromises = fs.promises;
+
+/** Name of the Internet Identity canister deployed next to the converted ones on local replicas */
+export const INTERNET_IDENTITY_CANISTER = 'internet_identity';
+
+const INTERNET_IDENTITY_RELEASE = 'https://github.com/dfinity/internet-identity/releases/latest/download';
+
+/**
+ * Gets the dfx.json entry of the Internet Identity development build. Its test mode accepts
+ * any device, so signing in locally needs no passkey. On mainnet the real one is used.
+ */
+export function getInternetIdentityDfxEntry(): Record<string, any> {
+  return {
+    type: 'custom',
+    candid: `${INTERNET_IDENTITY_RELEASE}/internet_identity.did`,
+    wasm: `${INTERNET_IDENTITY_RELEASE}/internet_identity_dev.wasm.gz`,
+    remote: { id: { ic: 'rdmx6-jaaaa-aaaaa-aaadq-cai' } }
+  };
+}
+
+/**
+ * Renders the access-control helpers of an authenticated canister, as an actor to merge into it.
+ * The principal that installs the canister, the dfx identity that deploys it, is the first
+ * admin. Helpers trap rather than throw, so synchronous code can call them; clients read the
+ * `<status>: <body>` message the same way as route rejections.
+ */
+export function renderAccessControl(canisterName: string): string {
+  return `import Array "mo:base/Array";
+import Debug "mo:base/Debug";
+import Principal "mo:base/Principal";
+
+shared ({ caller = installer }) actor ${canisterName} {
+  // Principals allowed to change any record, starting with the deployer. Stable variables keep
+  // their value on upgrades, so later installers do not become admins.
+  stable var admins : [Principal] = [installer];
+
+  func isAdmin(caller : Principal) : Bool {
+    for (admin in admins.vals()) {
+      if (admin == caller) {
+        return true;
+      };
+    };
+    false
+  };
+
+  // Rejects callers that did not sign in with Internet Identity
+  func requireAuthenticated(caller : Principal) {
+    if (Principal.isAnonymous(caller)) {
+      Debug.trap("401: {\\"error\\":\\"Sign in with Internet Identity\\"}");
+    };
+  };
+
+  // Rejects callers other than the owner; records without an owner can only be changed by admins
+  func requireOwner(caller : Principal, owner : ?Principal) {
+    requireAuthenticated(caller);
+    if (owner != ?caller and not isAdmin(caller)) {
+      Debug.trap("403: {\\"error\\":\\"Only the owner can change this\\"}");
+    };
+  };
+
+  public shared query ({ caller }) func whoami() : async Principal {
+    caller
+  };
+
+  public shared ({ caller }) func addAdmin(admin : Principal) : async () {
+    if (not isAdmin(caller)) {
+      Debug.trap("403: {\\"error\\":\\"Only admins can add admins\\"}");
+    };
+    if (not isAdmin(admin)) {
+      admins := Array.append<Principal>(admins, [admin]);
+    };
+  };
+};
+`;
+}
+
+/**
+ * Tells the model writing a canister how callers are authenticated
+ */
+export const AUTH_CANISTER_NOTE = `AUTHENTICATION:
+Users sign in with Internet Identity, and the canister already declares these access-control helpers. Use them, and do not declare them again:
+- func requireAuthenticated(caller : Principal)  // traps for anonymous callers
+- func requireOwner(caller : Principal, owner : ?Principal)  // traps unless the caller is the owner or an admin
+- func isAdmin(caller : Principal) : Bool
+- stable var admins : [Principal], starting with the deployer, and the public methods whoami and addAdmin
+Declare every public update method as \`public shared ({ caller }) func\` and call requireAuthenticated(caller) first. Record the caller as the owner of everything a method creates, and call requireOwner before changing or deleting it; admin-only methods check isAdmin(caller). Never take the user's identity, name or ID as an argument in place of caller.`;
+
+/**
+ * Gets the path of the generated sign-in module, next to the client config module
+ */
+export function getAuthModulePath(projectPath: string): string {
+  return path.join(path.dirname(getClientConfigPath(projectPath)), 'icpilot-auth.js');
+}
+
+/**
+ * Lists every file `writeAuthModule` writes, so a conversion can record them beforehand
+ */
+export function getAuthModuleFiles(projectPath: string): string[] {
+  const modulePath = getAuthModulePath(projectPath);
+  return [modulePath, modulePath.replace(/\.js$/, '.d.ts')];
+}
+
+/**
+ * Renders the sign-in module. Signing in switches every agent of the client config to the
+ * Internet Identity of the user, so actors created before keep working and sign as the user.
+ */
+function renderAuthModule(): string {
+  return `// Generated by ICPilot. Do not edit; convert again instead.
+import { AuthClient } from "@dfinity/auth-client";
+import { getCanisterId, host, isLocalNetwork, setIdentity } from "./icpilot-env.js";
+
+// Sessions last a working day, in nanoseconds
+const SESSION_TTL = BigInt(8 * 60 * 60) * BigInt(1000000000);
+
+let authClient;
+
+// Restores the session of an earlier sign-in before anything is signed
+function getAuthClient() {
+  if (!authClient) {
+    authClient = AuthClient.create().then(async client => {
+      if (await client.isAuthenticated()) {
+        setIdentity(client.getIdentity());
+      }
+      return client;
+    });
+  }
+  return authClient;
+}
+
+// Local replicas run the development build of Internet Identity deployed with the canisters
+function getIdentityProvider() {
+  if (!isLocalNetwork) {
+    return "https://identity.ic0.app";
+  }
+  return \`\${host || "http://127.0.0.1:4943"}/?canisterId=\${getCanisterId(${JSON.stringify(INTERNET_IDENTITY_CANISTER)})}\`;
+}
+
+/**
+ * Signs in with Internet Identity in a popup
+ * @returns The principal the canisters see as the caller
+ */
+export async function login(options = {}) {
+  const client = await getAuthClient();
+  await new Promise((resolve, reject) => client.login({
+    identityProvider: getIdentityProvider(),
+    maxTimeToLive: SESSION_TTL,
+    ...options,
+    onSuccess: resolve,
+    onError: error => reject(new Error(error || "Sign-in was cancelled"))
+  }));
+  const identity = client.getIdentity();
+  setIdentity(identity);
+  return identity.getPrincipal();
+}
+
+/**
+ * Signs out; canisters see later calls as anonymous
+ */
+export async function logout() {
+  const client = await getAuthClient();
+  await client.logout();
+  setIdentity();
+}
+
+export async function isAuthenticated() {
+  return (await getAuthClient()).isAuthenticated();
+}
+
+export async function getIdentity() {
+  return (await getAuthClient()).getIdentity();
+}
+
+export async function getPrincipal() {
+  return (await getIdentity()).getPrincipal();
+}
+
+if (typeof window !== "undefined") {
+  getAuthClient().catch(error => console.warn("Unable to restore the Internet Identity session", error));
+}
+`;
+}
+
+/**
+ * Renders the type declarations of the sign-in module
+ */
+function renderAuthModuleTypes(): string {
+  return `// Generated by ICPilot. Do not edit.
+import type { Identity } from "@dfinity/agent";
+import type { AuthClientLoginOptions } from "@dfinity/auth-client";
+import type { Principal } from "@dfinity/principal";
+
+export declare function login(options?: Omit<AuthClientLoginOptions, "onSuccess" | "onError">): Promise<Principal>;
+export declare function logout(): Promise<void>;
+export declare function isAuthenticated(): Promise<boolean>;
+export declare function getIdentity(): Promise<Identity>;
+export declare function getPrincipal(): Promise<Principal>;
+`;
+}
+
+/**
+ * Writes the sign-in module and its type declarations
+ */
+export async function writeAuthModule(projectPath: string): Promise<void> {
+  const [modulePath, typesPath] = getAuthModuleFiles(projectPath);
+  await fsPromises.mkdir(path.dirname(modulePath), { recursive: true });
+  await fsPromises.writeFile(modulePath, renderAuthModule());
+  await fsPromises.writeFile(typesPath, renderAuthModuleTypes());
+}
+
+/** Sign-in and session handling of Web2 clients: auth routes, tokens, cookies and auth libraries */
+const LOGIN_PATTERNS = [
+  /\b(?:log[iI]n|log[oO]ut|sign[iI]n|sign[oO]ut|signUp|register|authenticate)\s*\(/,
+  /['"`][^'"`]*\/(?:auth|login|logout|signin|signout|session|token)\b/,
+  /\b(?:authToken|accessToken|refreshToken|jwt|sessionId)\b/,
+  /\bAuthorization\b\s*['"`]?\s*:/,
+  /\bdocument\.cookie\b/,
+  /\bfrom\s+['"](?:firebase\/auth|next-auth[^'"]*|@auth0\/[^'"]+|passport[^'"]*|jsonwebtoken)['"]/
+];
+
+/**
+ * Tells whether client code signs users in or keeps a session, so it needs porting to Internet Identity
+ */
+export function hasLoginCode(code: string): boolean {
+  return LOGIN_PATTERNS.some(pattern => pattern.test(code));
+}
+
+/**
+ * Tells the model how to port the sign-in and session code of a client file
+ * @param moduleImport Module specifier of the sign-in module, relative to the file
+ */
+export function describeAuthentication(moduleImport: string): string {
+  return `AUTHENTICATION:
+Users now sign in with Internet Identity. Import { login, logout, isAuthenticated, getPrincipal } from "${moduleImport}" and use them in place of the Web2 sign-in and session code.
+- Replace username/password or OAuth sign-in with await login(), sign-out with await logout(), and session checks with await isAuthenticated(). Remove registration, password, token and cookie handling; the canisters identify the user by their principal.
+- Signing in switches every agent from createAgent() to the user's identity, so do NOT pass an identity to createAgent or create agents yourself.
+- Do not pass the user's ID to canister methods; they use the caller. Use (await getPrincipal()).toText() where the UI shows or compares the user ID.
+- Canister methods reject calls from users who are not signed in with "401: ..." and calls that change other users' records with "403: ..."; handle them like the old unauthorized responses.`;
+}
@@ -0,0 +1,361 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as recast from 'recast';
+import { addNamedImports, toModuleSpecifier } from './candid';
+import { parseJavaScript } from './express-routes';
+
+const fsPromises = fs.promises;
+
+/**
+ * The canister that took over browser storage and the module client code reaches it through
+ */
+export interface StorageModule {
+  canisterName: string;
+  /** Path of the generated `<name>.storage.js` */
+  modulePath: string;
+  /** Whether existing localStorage data is copied into the canister on first use */
+  migrateLocalData: boolean;
+}
+
+/** The wrappers replacing each storage API */
+const STORAGE_WRAPPERS: Record<string, string> = {
+  localStorage: 'canisterLocalStorage',
+  sessionStorage: 'canisterSessionStorage'
+};
+
+/**
+ * Gets the path of the storage client of a canister, next to its generated declarations
+ */
+export function getStorageModulePath(declarationsDir: string, canisterName: string): string {
+  return path.join(declarationsDir, `${canisterName}.storage.js`);
+}
+
+/**
+ * Renders the key-value store that replaces browser storage, as an actor to merge into a
+ * canister next to the access-control helpers. Entries are kept per signed-in caller; the
+ * client prefixes localStorage keys with `local/` and sessionStorage keys with `session/`.
+ */
+export function renderStorageCanister(canisterName: string): string {
+  return `import Iter "mo:base/Iter";
+import Principal "mo:base/Principal";
+import Text "mo:base/Text";
+import Trie "mo:base/Trie";
+
+actor ${canisterName} {
+  // Browser storage of each signed-in caller, formerly localStorage and sessionStorage. Anonymous
+  // callers are rejected, since they would all share the same entries.
+  stable var browserStorage : Trie.Trie<Principal, Trie.Trie<Text, Text>> = Trie.empty();
+
+  func storageOwnerKey(owner : Principal) : Trie.Key<Principal> = { hash = Principal.hash(owner); key = owner };
+
+  func storageEntryKey(key : Text) : Trie.Key<Text> = { hash = Text.hash(key); key = key };
+
+  func storageEntries(owner : Principal) : Trie.Trie<Text, Text> {
+    switch (Trie.get(browserStorage, storageOwnerKey(owner), Principal.equal)) {
+      case (?entries) { entries };
+      case null { Trie.empty() };
+    }
+  };
+
+  func putStorageEntries(owner : Principal, entries : Trie.Trie<Text, Text>) {
+    browserStorage := Trie.put(browserStorage, storageOwnerKey(owner), Principal.equal, entries).0;
+  };
+
+  public shared query ({ caller }) func storageGetItem(key : Text) : async ?Text {
+    requireAuthenticated(caller);
+    Trie.get(storageEntries(caller), storageEntryKey(key), Text.equal)
+  };
+
+  public shared ({ caller }) func storageSetItem(key : Text, value : Text) : async () {
+    requireAuthenticated(caller);
+    putStorageEntries(caller, Trie.put(storageEntries(caller), storageEntryKey(key), Text.equal, value).0);
+  };
+
+  public shared ({ caller }) func storageRemoveItem(key : Text) : async () {
+    requireAuthenticated(caller);
+    putStorageEntries(caller, Trie.remove(storageEntries(caller), storageEntryKey(key), Text.equal).0);
+  };
+
+  // Removes the caller's entries whose keys start with prefix
+  public shared ({ caller }) func storageClear(prefix : Text) : async () {
+    requireAuthenticated(caller);
+    putStorageEntries(caller, Trie.filter<Text, Text>(storageEntries(caller), func(key : Text, _ : Text) : Bool { not Text.startsWith(key, #text prefix) }));
+  };
+
+  public shared query ({ caller }) func storageKeys(prefix : Text) : async [Text] {
+    requireAuthenticated(caller);
+    let keys = Iter.map<(Text, Text), Text>(Trie.iter(storageEntries(caller)), func(entry : (Text, Text)) : Text { entry.0 });
+    Iter.toArray(Iter.filter<Text>(keys, func(key : Text) : Bool { Text.startsWith(key, #text prefix) }))
+  };
+
+  // Copies entries the browser kept, without overwriting those the canister already has
+  public shared ({ caller }) func storageImport(entries : [(Text, Text)]) : async () {
+    requireAuthenticated(caller);
+    var current = storageEntries(caller);
+    for ((key, value) in entries.vals()) {
+      if (Trie.get(current, storageEntryKey(key), Text.equal) == null) {
+        current := Trie.put(current, storageEntryKey(key), Text.equal, value).0;
+      };
+    };
+    putStorageEntries(caller, current);
+  };
+};
+`;
+}
+
+/**
+ * Renders the storage client: `canisterLocalStorage` and `canisterSessionStorage` have the
+ * methods of the Web Storage API, but every one of them returns a promise
+ */
+function renderStorageModule(module: StorageModule, configImport: string): string {
+  return `// Generated by ICPilot for the browser storage kept by ${module.canisterName}. Do not edit; convert again instead.
+import { Actor } from "@dfinity/agent";
+import { idlFactory } from "./${module.canisterName}.did.js";
+import { createAgent, getCanisterId } from "${configImport}";
+
+const MIGRATE_LOCAL_DATA = ${module.migrateLocalData};
+const MIGRATED_MARKER = "icpilot:migrated:${module.canisterName}";
+const SESSION_MARKER = "icpilot:session:${module.canisterName}";
+
+let actor;
+
+function getActor() {
+  if (!actor) {
+    actor = Actor.createActor(idlFactory, { agent: createAgent(), canisterId: getCanisterId(${JSON.stringify(module.canisterName)}) });
+  }
+  return actor;
+}
+
+function browserStorage(name) {
+  try {
+    return typeof window !== "undefined" ? window[name] : undefined;
+  } catch {
+    // Storage access throws when the browser blocks it
+    return undefined;
+  }
+}
+
+let migration;
+
+/**
+ * Copies what this browser kept in localStorage into the canister, once per browser.
+ * Entries the canister already has are kept.
+ */
+export function migrateLocalStorage() {
+  if (!migration) {
+    migration = (async () => {
+      const local = browserStorage("localStorage");
+      if (!local || local.getItem(MIGRATED_MARKER)) {
+        return;
+      }
+      const entries = [];
+      for (let index = 0; index < local.length; index++) {
+        const key = local.key(index);
+        if (key !== null && !key.startsWith("icpilot:")) {
+          entries.push([\`local/\${key}\`, local.getItem(key) ?? ""]);
+        }
+      }
+      if (entries.length > 0) {
+        await getActor().storageImport(entries);
+      }
+      local.setItem(MIGRATED_MARKER, new Date().toISOString());
+    })().catch(error => {
+      // Try again on the next access
+      migration = undefined;
+      throw error;
+    });
+  }
+  return migration;
+}
+
+let session;
+
+// sessionStorage ends with the browser session, so entries of an earlier session are dropped first
+function startSession() {
+  if (!session) {
+    session = (async () => {
+      const current = browserStorage("sessionStorage");
+      if (current && !current.getItem(SESSION_MARKER)) {
+        await getActor().storageClear("session/");
+        current.setItem(SESSION_MARKER, new Date().toISOString());
+      }
+    })().catch(error => {
+      session = undefined;
+      throw error;
+    });
+  }
+  return session;
+}
+
+function createStorage(prefix, prepare) {
+  const storage = {
+    async getItem(key) {
+      await prepare();
+      const [value] = await getActor().storageGetItem(prefix + String(key));
+      return value ?? null;
+    },
+    async setItem(key, value) {
+      await prepare();
+      await getActor().storageSetItem(prefix + String(key), String(value));
+    },
+    async removeItem(key) {
+      await prepare();
+      await getActor().storageRemoveItem(prefix + String(key));
+    },
+    async clear() {
+      await prepare();
+      await getActor().storageClear(prefix);
+    },
+    async keys() {
+      await prepare();
+      return (await getActor().storageKeys(prefix)).map(key => key.slice(prefix.length));
+    },
+    async key(index) {
+      return (await storage.keys())[index] ?? null;
+    },
+    async length() {
+      return (await storage.keys()).length;
+    }
+  };
+  return storage;
+}
+
+export const canisterLocalStorage = createStorage("local/", () => (MIGRATE_LOCAL_DATA ? migrateLocalStorage() : Promise.resolve()));
+
+export const canisterSessionStorage = createStorage("session/", startSession);
+`;
+}
+
+/**
+ * Renders the type declarations of the storage client
+ */
+function renderStorageModuleTypes(): string {
+  return `// Generated by ICPilot. Do not edit.
+export interface CanisterStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+  key(index: number): Promise<string | null>;
+  length(): Promise<number>;
+}
+
+export declare const canisterLocalStorage: CanisterStorage;
+export declare const canisterSessionStorage: CanisterStorage;
+export declare function migrateLocalStorage(): Promise<void>;
+`;
+}
+
+/**
+ * Writes the storage client of a canister and its type declarations
+ * @param clientConfigPath Path of the generated client config module
+ */
+export async function writeStorageModule(module: StorageModule, clientConfigPath: string): Promise<void> {
+  await fsPromises.mkdir(path.dirname(module.modulePath), { recursive: true });
+  await fsPromises.writeFile(module.modulePath, renderStorageModule(module, toModuleSpecifier(module.modulePath, clientConfigPath)));
+  await fsPromises.writeFile(module.modulePath.replace(/\.js$/, '.d.ts'), renderStorageModuleTypes());
+}
+
+/**
+ * Reads the storage API an expression refers to, `localStorage` or `window.localStorage`
+ */
+function storageApiOf(node: any): string | undefined {
+  if (node.type === 'Identifier') {
+    return node.name in STORAGE_WRAPPERS || node.name === 'indexedDB' ? node.name : undefined;
+  }
+  if (node.type === 'MemberExpression' && !node.computed && node.object.type === 'Identifier' &&
+    ['window', 'globalThis', 'self'].includes(node.object.name)) {
+    return storageApiOf(node.property);
+  }
+  return undefined;
+}
+
+function isInAsyncFunction(nodePath: any): boolean {
+  for (let current = nodePath.parent; current; current = current.parent) {
+    if (['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod'].includes(current.node.type)) {
+      return Boolean(current.node.async);
+    }
+  }
+  return false;
+}
+
+/**
+ * Points localStorage and sessionStorage calls at the storage client. Calls in async functions
+ * are awaited; writes elsewhere are sent without waiting and report their failures. Reads
+ * outside async functions, property access such as `localStorage.theme` and IndexedDB are
+ * left for the model.
+ * @param filePath Path of the file, to import the storage client relative to it
+ * @returns The rewritten code and how many storage accesses are left in it
+ */
+export function rewriteBrowserStorage(code: string, filePath: string, module: StorageModule): { code: string; remaining: number } {
+  let ast: any;
+  try {
+    ast = parseJavaScript(code);
+  } catch {
+    return { code, remaining: 0 };
+  }
+  const used = new Set<string>();
+  let remaining = 0;
+  const b = recast.types.builders;
+
+  recast.visit(ast, {
+    visitCallExpression(nodePath: any) {
+      const node = nodePath.node;
+      const callee = node.callee;
+      const api = callee.type === 'MemberExpression' && !callee.computed ? storageApiOf(callee.object) : undefined;
+      const wrapper = api ? STORAGE_WRAPPERS[api] : undefined;
+      const method = wrapper ? callee.property.name : undefined;
+      if (!wrapper || !['getItem', 'setItem', 'removeItem', 'clear'].includes(method)) {
+        this.traverse(nodePath);
+        return;
+      }
+      const call = b.callExpression(b.memberExpression(b.identifier(wrapper), b.identifier(method)), node.arguments);
+      if (isInAsyncFunction(nodePath)) {
+        nodePath.replace(b.awaitExpression(call));
+      } else if (method !== 'getItem' && nodePath.parent.node.type === 'ExpressionStatement') {
+        // Nothing waits for the write, so a rejection by the canister is reported here
+        const report = b.arrowFunctionExpression([b.identifier('error')], b.callExpression(
+          b.memberExpression(b.identifier('console'), b.identifier('error')),
+          [b.stringLiteral(`${api}.${method} failed`), b.identifier('error')]
+        ));
+        nodePath.replace(b.callExpression(b.memberExpression(call, b.identifier('catch')), [report]));
+      } else {
+        this.traverse(nodePath);
+        return;
+      }
+      used.add(wrapper);
+      // The arguments may use storage as well
+      this.traverse(nodePath);
+    },
+    visitMemberExpression(nodePath: any) {
+      if (storageApiOf(nodePath.node.object)) {
+        remaining++;
+      }
+      this.traverse(nodePath);
+    }
+  });
+
+  if (used.size === 0) {
+    return { code, remaining };
+  }
+  const rewritten = addNamedImports(recast.print(ast).code, [...used], toModuleSpecifier(filePath, module.modulePath));
+  return { code: rewritten, remaining };
+}
+
+/**
+ * Tells the model writing a canister that it already stores browser storage
+ */
+export const STORAGE_CANISTER_NOTE = `BROWSER STORAGE:
+The canister already keeps the browser storage of each caller with storageGetItem, storageSetItem, storageRemoveItem, storageClear, storageKeys and storageImport. Do not declare other storage or methods for localStorage, sessionStorage or IndexedDB data.`;
+
+/**
+ * Tells the model how to port the browser storage the rules left in a client file
+ * @param moduleImport Module specifier of the storage client, relative to the file
+ */
+export function describeBrowserStorage(moduleImport: string): string {
+  return `BROWSER STORAGE:
+Browser storage now lives in the canister, per user. Import { canisterLocalStorage, canisterSessionStorage } from "${moduleImport}" and use them instead of localStorage and sessionStorage.
+- They have getItem, setItem, removeItem, clear, keys, key and length(), and EVERY method returns a promise. Await them, making the calling function async where its callers allow it; in callbacks that cannot be async, such as React effects, use .then().
+- Replace IndexedDB as well: store each record as JSON under the key "<object store>/<record key>" in canisterLocalStorage, and list a store with keys() and a prefix filter.`;
+}
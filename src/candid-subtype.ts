@@ -0,0 +1,403 @@
+/**
+ * A Candid type as written in a .did file. `blob` is read as `vec nat8`.
+ */
+export type CandidType =
+  | { kind: 'prim'; name: string }
+  | { kind: 'ref'; name: string }
+  | { kind: 'opt' | 'vec'; inner: CandidType }
+  | { kind: 'record' | 'variant'; fields: CandidField[] }
+  | { kind: 'func'; func: CandidFunc }
+  | { kind: 'service'; methods: CandidMethod[] };
+
+export interface CandidField {
+  /** Name as written, or the field number for unnamed and numbered fields */
+  label: string;
+  /** Field hash; fields match by hash, so `0` and an unnamed first field are the same */
+  id: number;
+  type: CandidType;
+}
+
+export interface CandidFunc {
+  args: CandidType[];
+  results: CandidType[];
+  /** `query`, `composite_query` and `oneway`, in the order written */
+  modes: string[];
+}
+
+export interface CandidMethod {
+  name: string;
+  /** A function type, or a reference to one */
+  type: CandidType;
+}
+
+/**
+ * The type definitions and service of a .did file
+ */
+export interface CandidInterface {
+  types: Map<string, CandidType>;
+  methods: CandidMethod[];
+}
+
+const PRIMITIVES = new Set([
+  'nat', 'nat8', 'nat16', 'nat32', 'nat64', 'int', 'int8', 'int16', 'int32', 'int64',
+  'float32', 'float64', 'bool', 'text', 'null', 'reserved', 'empty', 'principal'
+]);
+
+/**
+ * Hashes a field name the way Candid does
+ */
+function hashLabel(name: string): number {
+  let hash = 0;
+  for (const byte of Buffer.from(name, 'utf8')) {
+    hash = (hash * 223 + byte) >>> 0;
+  }
+  return hash;
+}
+
+function tokenize(source: string): string[] {
+  const code = source.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '');
+  return code.match(/"(?:[^"\\]|\\.)*"|->|[A-Za-z_][A-Za-z0-9_]*|\d+|[{}();:,=]/g) ?? [];
+}
+
+/**
+ * Parses a Candid interface. Imports are not followed.
+ */
+export function parseCandid(source: string): CandidInterface {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) {
+      throw new Error(`Expected "${token}" in Candid interface but found "${tokens[pos] ?? 'end of file'}"`);
+    }
+    pos++;
+  };
+  const unquote = (token: string) => token.startsWith('"') ? JSON.parse(token) as string : token;
+
+  const parseFields = (variant: boolean): CandidField[] => {
+    expect('{');
+    const fields: CandidField[] = [];
+    while (peek() !== '}') {
+      let label: string;
+      let id: number;
+      let type: CandidType;
+      if (tokens[pos + 1] === ':') {
+        const name = next();
+        pos++;
+        label = /^\d+$/.test(name) ? name : unquote(name);
+        id = /^\d+$/.test(name) ? Number(name) : hashLabel(label);
+        type = parseType();
+      } else if (variant) {
+        // A bare variant case carries no value
+        label = unquote(next());
+        id = hashLabel(label);
+        type = { kind: 'prim', name: 'null' };
+      } else {
+        // Unnamed record fields are numbered from the previous one
+        id = fields.length > 0 ? fields[fields.length - 1].id + 1 : 0;
+        label = String(id);
+        type = parseType();
+      }
+      fields.push({ label, id, type });
+      if (peek() === ';') {
+        pos++;
+      }
+    }
+    expect('}');
+    return fields;
+  };
+
+  const parseTuple = (): CandidType[] => {
+    expect('(');
+    const types: CandidType[] = [];
+    while (peek() !== ')') {
+      // Arguments may be named; the name does not affect the type
+      if (tokens[pos + 1] === ':') {
+        pos += 2;
+      }
+      types.push(parseType());
+      if (peek() === ',') {
+        pos++;
+      }
+    }
+    expect(')');
+    return types;
+  };
+
+  const parseFunc = (): CandidFunc => {
+    const args = parseTuple();
+    expect('->');
+    const results = parseTuple();
+    const modes: string[] = [];
+    while (['query', 'composite_query', 'oneway'].includes(peek())) {
+      modes.push(next());
+    }
+    return { args, results, modes };
+  };
+
+  const parseMethods = (): CandidMethod[] => {
+    expect('{');
+    const methods: CandidMethod[] = [];
+    while (peek() !== '}') {
+      const name = unquote(next());
+      expect(':');
+      const type: CandidType = peek() === '(' ? { kind: 'func', func: parseFunc() } : { kind: 'ref', name: next() };
+      methods.push({ name, type });
+      if (peek() === ';') {
+        pos++;
+      }
+    }
+    expect('}');
+    return methods;
+  };
+
+  const parseType = (): CandidType => {
+    const token = next();
+    switch (token) {
+      case 'opt':
+      case 'vec':
+        return { kind: token, inner: parseType() };
+      case 'blob':
+        return { kind: 'vec', inner: { kind: 'prim', name: 'nat8' } };
+      case 'record':
+      case 'variant':
+        return { kind: token, fields: parseFields(token === 'variant') };
+      case 'func':
+        return { kind: 'func', func: parseFunc() };
+      case 'service':
+        return { kind: 'service', methods: parseMethods() };
+      case undefined:
+        throw new Error('Unexpected end of Candid interface');
+      default:
+        return PRIMITIVES.has(token) ? { kind: 'prim', name: token } : { kind: 'ref', name: token };
+    }
+  };
+
+  const types = new Map<string, CandidType>();
+  let methods: CandidMethod[] = [];
+  while (pos < tokens.length) {
+    const token = next();
+    if (token === 'type') {
+      const name = next();
+      expect('=');
+      types.set(name, parseType());
+    } else if (token === 'import') {
+      next();
+    } else if (token === 'service') {
+      if (peek() !== ':') {
+        next();
+      }
+      expect(':');
+      // Actor classes take init arguments, which only matter at install
+      if (peek() === '(') {
+        parseTuple();
+        expect('->');
+      }
+      if (peek() === '{') {
+        methods = parseMethods();
+      } else {
+        const service = types.get(next());
+        methods = service?.kind === 'service' ? service.methods : [];
+      }
+    }
+    if (peek() === ';') {
+      pos++;
+    }
+  }
+  return { types, methods };
+}
+
+function describeType(type: CandidType): string {
+  switch (type.kind) {
+    case 'prim':
+    case 'ref':
+      return type.name;
+    case 'opt':
+    case 'vec':
+      return `${type.kind} ${describeType(type.inner)}`;
+    default:
+      return type.kind;
+  }
+}
+
+type TypeTable = Map<string, CandidType>;
+
+function resolve(type: CandidType, types: TypeTable): CandidType {
+  const seen = new Set<string>();
+  while (type.kind === 'ref' && types.has(type.name) && !seen.has(type.name)) {
+    seen.add(type.name);
+    type = types.get(type.name)!;
+  }
+  return type;
+}
+
+/**
+ * Whether a value may be left out of a record or argument list, because it reads as null
+ */
+function isOptional(type: CandidType, types: TypeTable): boolean {
+  const resolved = resolve(type, types);
+  return resolved.kind === 'opt' || (resolved.kind === 'prim' && ['null', 'reserved'].includes(resolved.name));
+}
+
+/**
+ * Checks that `a`, defined in `aTypes`, is a Candid subtype of `b`, defined in `bTypes`
+ * @param assumed Pairs of named types being compared further up, which hold for recursive types
+ * @returns Why it is not, or undefined if it is
+ */
+function checkSubtype(
+  a: CandidType,
+  aTypes: TypeTable,
+  b: CandidType,
+  bTypes: TypeTable,
+  at: string,
+  assumed: Set<string>
+): string | undefined {
+  if (a.kind === 'ref' && b.kind === 'ref') {
+    const key = `${a.name} <: ${b.name}`;
+    if (assumed.has(key)) {
+      return undefined;
+    }
+    assumed = new Set(assumed).add(key);
+  }
+
+  const left = resolve(a, aTypes);
+  const right = resolve(b, bTypes);
+  const mismatch = `${at}: ${describeType(left)} is not compatible with ${describeType(right)}`;
+
+  if ((right.kind === 'prim' && right.name === 'reserved') || (left.kind === 'prim' && left.name === 'empty')) {
+    return undefined;
+  }
+  if (right.kind === 'opt') {
+    if (left.kind === 'opt') {
+      return checkSubtype(left.inner, aTypes, right.inner, bTypes, at, assumed);
+    }
+    if (left.kind === 'prim' && left.name === 'null') {
+      return undefined;
+    }
+    return checkSubtype(left, aTypes, right.inner, bTypes, at, assumed);
+  }
+  if (left.kind === 'ref') {
+    return `${at}: type ${left.name} is not defined`;
+  }
+  if (right.kind === 'ref') {
+    return `${at}: type ${right.name} is not defined`;
+  }
+
+  if (left.kind === 'prim' && right.kind === 'prim') {
+    return left.name === right.name || (left.name === 'nat' && right.name === 'int') ? undefined : mismatch;
+  }
+  if (left.kind === 'vec' && right.kind === 'vec') {
+    return checkSubtype(left.inner, aTypes, right.inner, bTypes, `${at}[]`, assumed);
+  }
+  if (left.kind === 'record' && right.kind === 'record') {
+    const fields = new Map(left.fields.map(field => [field.id, field]));
+    for (const field of right.fields) {
+      const match = fields.get(field.id);
+      if (!match) {
+        if (!isOptional(field.type, bTypes)) {
+          return `${at}.${field.label}: the field is required on one side but missing on the other`;
+        }
+        continue;
+      }
+      const problem = checkSubtype(match.type, aTypes, field.type, bTypes, `${at}.${field.label}`, assumed);
+      if (problem) {
+        return problem;
+      }
+    }
+    return undefined;
+  }
+  if (left.kind === 'variant' && right.kind === 'variant') {
+    const cases = new Map(right.fields.map(field => [field.id, field]));
+    for (const field of left.fields) {
+      const match = cases.get(field.id);
+      if (!match) {
+        return `${at}: case #${field.label} can be sent but is not understood on the other side`;
+      }
+      const problem = checkSubtype(field.type, aTypes, match.type, bTypes, `${at}#${field.label}`, assumed);
+      if (problem) {
+        return problem;
+      }
+    }
+    return undefined;
+  }
+  if (left.kind === 'func' && right.kind === 'func') {
+    return checkFuncSubtype(left.func, aTypes, right.func, bTypes, at, assumed);
+  }
+  if (left.kind === 'service' && right.kind === 'service') {
+    for (const method of right.methods) {
+      const match = left.methods.find(candidate => candidate.name === method.name);
+      const problem = match
+        ? checkSubtype(match.type, aTypes, method.type, bTypes, `${at}.${method.name}`, assumed)
+        : `${at}.${method.name}: the method was removed`;
+      if (problem) {
+        return problem;
+      }
+    }
+    return undefined;
+  }
+  return mismatch;
+}
+
+/**
+ * Checks an argument or result list; values missing at the end read as null
+ */
+function checkSequenceSubtype(
+  a: CandidType[],
+  aTypes: TypeTable,
+  b: CandidType[],
+  bTypes: TypeTable,
+  at: string,
+  assumed: Set<string>
+): string | undefined {
+  for (let index = 0; index < b.length; index++) {
+    const problem = index < a.length
+      ? checkSubtype(a[index], aTypes, b[index], bTypes, `${at} ${index + 1}`, assumed)
+      : isOptional(b[index], bTypes) ? undefined : `${at} ${index + 1}: the value is required on one side but missing on the other`;
+    if (problem) {
+      return problem;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Functions are contravariant in their arguments and covariant in their results
+ */
+function checkFuncSubtype(
+  a: CandidFunc,
+  aTypes: TypeTable,
+  b: CandidFunc,
+  bTypes: TypeTable,
+  at: string,
+  assumed: Set<string>
+): string | undefined {
+  const modes = (func: CandidFunc) => [...func.modes].sort().join(' ') || 'update';
+  if (modes(a) !== modes(b)) {
+    return `${at}: changed from ${modes(b)} to ${modes(a)}`;
+  }
+  return checkSequenceSubtype(b.args, bTypes, a.args, aTypes, `${at} argument`, assumed)
+    ?? checkSequenceSubtype(a.results, aTypes, b.results, bTypes, `${at} result`, assumed);
+}
+
+/**
+ * Checks that clients of a canister's old interface keep working against the new one,
+ * i.e. that the new service is a Candid subtype of the old
+ * @returns One problem per incompatible method; empty if the upgrade is safe for clients
+ */
+export function checkCandidUpgrade(oldCandid: string, newCandid: string): string[] {
+  const oldInterface = parseCandid(oldCandid);
+  const newInterface = parseCandid(newCandid);
+  const problems: string[] = [];
+  const methods = new Map(newInterface.methods.map(method => [method.name, method]));
+  for (const method of oldInterface.methods) {
+    const match = methods.get(method.name);
+    const problem = match
+      ? checkSubtype(match.type, newInterface.types, method.type, oldInterface.types, method.name, new Set())
+      : `${method.name}: the method was removed`;
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+  return problems;
+}
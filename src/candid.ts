@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execLogged, log, startPhase } from './logger';
+import { parseMotoko } from './motoko-parser';
+
+const fsPromises = fs.promises;
+
+/**
+ * The Candid interface and generated declarations of a deployed canister
+ */
+export interface CanisterBindings {
+  canisterName: string;
+  /** Workspace directory holding the generated declarations */
+  declarationsDir: string;
+  /** Path of the canister's .did file */
+  didPath: string;
+  /** Contents of the .did file */
+  candid: string;
+}
+
+/**
+ * What a single client file needs in order to use the generated bindings
+ */
+export interface ClientBindings {
+  candid: string;
+  /** Module specifier of `<name>.did.js`, relative to the client file */
+  idlFactoryImport: string;
+  /** Module specifier of the `<name>.did.d.ts` types, relative to the client file */
+  serviceTypeImport: string;
+  typescript: boolean;
+  /** Module specifier of the generated client config, relative to the client file */
+  configImport: string;
+}
+
+/**
+ * A deployed canister a client file calls
+ */
+export interface ClientCanisterTarget {
+  canisterName: string;
+  canisterId: string;
+  bindings: ClientBindings;
+}
+
+/**
+ * Directory, relative to the dfx project, that dfx writes the declarations of a canister to.
+ * It points back into the workspace so client files can import the bindings directly.
+ */
+export function getDeclarationsOutput(canisterName: string): string {
+  return `../src/declarations/${canisterName}`;
+}
+
+/**
+ * Runs `dfx generate` for a deployed canister, producing its .did file, the JavaScript
+ * idlFactory and the TypeScript declarations
+ * @param icProjectDir The dfx project directory
+ * @param canisterName The canister to generate bindings for
+ * @param network The network the canister was deployed to
+ */
+export async function generateCanisterBindings(icProjectDir: string, canisterName: string, network: string): Promise<CanisterBindings> {
+  startPhase(`Generate bindings for ${canisterName}`);
+  try {
+    await execLogged(`dfx generate ${canisterName} --network ${network}`, { cwd: icProjectDir });
+  } catch (error) {
+    throw new Error(`Failed to generate Candid bindings for ${canisterName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const declarationsDir = path.resolve(icProjectDir, getDeclarationsOutput(canisterName));
+  const didPath = path.join(declarationsDir, `${canisterName}.did`);
+  if (!fs.existsSync(didPath)) {
+    throw new Error(`dfx generate did not produce ${didPath}`);
+  }
+
+  const candid = await fsPromises.readFile(didPath, 'utf8');
+  log(`Generated Candid interface for ${canisterName}:\n${candid}`);
+  return { canisterName, declarationsDir, didPath, candid };
+}
+
+/**
+ * Lists the method names of the service in a Candid interface
+ */
+export function getServiceMethods(candid: string): string[] {
+  const code = candid.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '');
+  const service = /\bservice\s*:/.exec(code);
+  if (!service) {
+    return [];
+  }
+
+  // The body is the first `{` outside the parameter list of an actor class
+  let index = service.index + service[0].length;
+  let parens = 0;
+  for (; index < code.length; index++) {
+    if (code[index] === '(') parens++;
+    if (code[index] === ')') parens--;
+    if (code[index] === '{' && parens === 0) break;
+  }
+
+  const methods: string[] = [];
+  let depth = 0;
+  let expectName = true;
+  for (; index < code.length; index++) {
+    const char = code[index];
+    if (char === '{' || char === '(') {
+      depth++;
+      if (depth === 1) expectName = true;
+    } else if (char === '}' || char === ')') {
+      depth--;
+      if (depth === 0) break;
+    } else if (char === ';' && depth === 1) {
+      expectName = true;
+    } else if (expectName && depth === 1 && !/\s/.test(char)) {
+      const name = /^(?:"((?:[^"\\]|\\.)*)"|([A-Za-z_][A-Za-z0-9_]*))\s*:/.exec(code.slice(index));
+      if (name) {
+        methods.push(name[1] ?? name[2]);
+        index += name[0].length - 1;
+      }
+      expectName = false;
+    }
+  }
+  return methods;
+}
+
+/**
+ * Finds the public functions of a canister's source that its deployed interface lacks,
+ * e.g. because a fallback replaced the code
+ */
+export function findMissingMethods(canisterSource: string, candid: string): string[] {
+  const deployed = new Set(getServiceMethods(candid));
+  return (parseMotoko(canisterSource).actor?.declarations ?? [])
+    .filter(declaration => declaration.kind === 'func' && declaration.visibility === 'public' && declaration.name)
+    .map(declaration => declaration.name!)
+    .filter(name => !deployed.has(name));
+}
+
+/**
+ * Builds a relative module specifier from a file to a target path
+ */
+export function toModuleSpecifier(fromFile: string, target: string): string {
+  let relative = path.relative(path.dirname(fromFile), target).split(path.sep).join('/');
+  if (!relative.startsWith('.')) {
+    relative = `./${relative}`;
+  }
+  return relative;
+}
+
+/**
+ * Resolves the bindings imports as seen from a particular client file
+ * @param clientConfigPath Path of the generated client config module
+ */
+export function getClientBindings(bindings: CanisterBindings, clientFilePath: string, clientConfigPath: string): ClientBindings {
+  const base = path.join(bindings.declarationsDir, bindings.canisterName);
+  return {
+    candid: bindings.candid,
+    idlFactoryImport: toModuleSpecifier(clientFilePath, `${base}.did.js`),
+    serviceTypeImport: toModuleSpecifier(clientFilePath, `${base}.did`),
+    typescript: /\.tsx?$/.test(clientFilePath),
+    configImport: toModuleSpecifier(clientFilePath, clientConfigPath)
+  };
+}
+
+/**
+ * Inserts an import statement after the last existing import, or at the top of the file
+ */
+function insertImport(code: string, statement: string): string {
+  const imports = [...code.matchAll(/^import[\s\S]*?from\s*['"][^'"]+['"];?[^\S\n]*$/gm)];
+  if (imports.length === 0) {
+    return `${statement}\n${code}`;
+  }
+  const last = imports[imports.length - 1];
+  const end = (last.index || 0) + last[0].length;
+  return `${code.slice(0, end)}\n${statement}${code.slice(end)}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Adds names to the named import of a module, creating the import if there is none
+ */
+export function addNamedImports(code: string, names: string[], specifier: string): string {
+  const existing = new RegExp(`import\\s*\\{([^}]*)\\}\\s*from\\s*(['"])${escapeRegExp(specifier)}\\2;?`).exec(code);
+  if (!existing) {
+    return insertImport(code, `import { ${names.join(', ')} } from "${specifier}";`);
+  }
+  const current = existing[1].split(',').map(name => name.trim()).filter(Boolean);
+  const merged = [...current, ...names.filter(name => !current.includes(name))];
+  return code.replace(existing[0], `import { ${merged.join(', ')} } from "${specifier}";`);
+}
+
+/**
+ * Makes every HttpAgent the client creates come from the generated config, which knows the
+ * host of the network and fetches the root key only on local replicas. Root key fetches
+ * written into the client are removed, since on mainnet they would trust any replica.
+ */
+export function wireAgentConfig(code: string, configImport: string): string {
+  let wired = code.replace(/\bnew\s+HttpAgent\(\s*(\{[^{}]*\})?\s*\)|\bHttpAgent\.create\(\s*(\{[^{}]*\})?\s*\)/g, (call, newOptions?: string, createOptions?: string) => {
+    const options = (newOptions ?? createOptions ?? '')
+      .replace(/\bhost\s*:\s*(['"`])[^'"`]*\1\s*,?\s*/, '')
+      .replace(/,\s*\}$/, ' }')
+      .replace(/^\{\s*\}$/, '');
+    return `createAgent(${options})`;
+  });
+  if (wired === code && !/\bcreateAgent\(/.test(wired)) {
+    return code;
+  }
+
+  wired = wired.replace(/^[ \t]*(?:await\s+)?[\w.]+\.fetchRootKey\(\)(?:\.catch\([^;]*\))?;?[ \t]*\r?\n/gm, '');
+
+  // Drop HttpAgent from the agent import once nothing else uses it
+  const agentImport = /import\s*\{([^}]*)\}\s*from\s*(['"])@dfinity\/agent\2;?/.exec(wired);
+  if (agentImport && (wired.match(/\bHttpAgent\b/g) || []).length === 1) {
+    const names = agentImport[1].split(',').map(name => name.trim()).filter(name => name && name !== 'HttpAgent');
+    wired = wired.replace(agentImport[0], names.length > 0 ? `import { ${names.join(', ')} } from "@dfinity/agent";` : '');
+  }
+
+  return addNamedImports(wired, ['createAgent'], configImport);
+}
+
+/**
+ * Identifiers used for one canister in a client file that calls several canisters,
+ * e.g. `usersActor` and `usersIdlFactory` for `Users`
+ */
+export function getTargetIdentifiers(canisterName: string): {
+  actor: string;
+  idlFactory: string;
+  serviceType: string;
+} {
+  const base = canisterName.charAt(0).toLowerCase() + canisterName.slice(1);
+  return {
+    actor: `${base}Actor`,
+    idlFactory: `${base}IdlFactory`,
+    serviceType: `${canisterName.charAt(0).toUpperCase() + canisterName.slice(1)}Service`
+  };
+}
+
+/**
+ * Makes a client file that calls several canisters import each canister's generated
+ * bindings under its own alias, and the agent and canister IDs from the client config
+ */
+export function wireCanisterTargets(code: string, targets: ClientCanisterTarget[]): string {
+  let wired = code;
+
+  for (const target of targets) {
+    const ids = getTargetIdentifiers(target.canisterName);
+
+    const idlImport = new RegExp(`import\\s*\\{[^}]*\\bidlFactory\\s+as\\s+${ids.idlFactory}\\b[^}]*\\}\\s*from\\s*(['"])([^'"]+)\\1`).exec(wired);
+    if (idlImport) {
+      wired = wired.replace(idlImport[0], idlImport[0].replace(idlImport[2], target.bindings.idlFactoryImport));
+    } else {
+      wired = insertImport(wired, `import { idlFactory as ${ids.idlFactory} } from "${target.bindings.idlFactoryImport}";`);
+    }
+
+    if (target.bindings.typescript && !new RegExp(`\\b${ids.serviceType}\\b`).test(wired)) {
+      wired = insertImport(wired, `import type { _SERVICE as ${ids.serviceType} } from "${target.bindings.serviceTypeImport}";`);
+      wired = wired.replace(
+        new RegExp(`Actor\\.createActor\\(\\s*${ids.idlFactory}\\b`, 'g'),
+        `Actor.createActor<${ids.serviceType}>(${ids.idlFactory}`
+      );
+    }
+
+  }
+
+  if (targets.length === 0) {
+    return wired;
+  }
+  // All targets share one config module
+  const configImport = targets[0].bindings.configImport;
+  if (/\bgetCanisterId\(/.test(wired)) {
+    wired = addNamedImports(wired, ['getCanisterId'], configImport);
+  }
+  return wireAgentConfig(wired, configImport);
+}
@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ANONYMOUS, CallableUnit, StorageAccess } from './analyzer';
+import { requestStructuredResponse } from './generator';
+import { CANISTER_PLAN_SCHEMA, formatSchemaErrors, ResponseFormat, validateAgainstSchema } from './schema';
+import { log } from './logger';
+
+/** Canister used when the code is not split, and by conversions made before plans existed */
+export const DEFAULT_CANISTER_NAME = 'MainCanister';
+
+const CANISTER_PLAN_FORMAT: ResponseFormat = {
+  name: 'canister_plan',
+  schema: CANISTER_PLAN_SCHEMA
+};
+
+/**
+ * One canister of a plan and the part of the code it takes over
+ */
+export interface PlannedCanister {
+  name: string;
+  description: string;
+  /** The analyzed callables the canister implements, by name or `file:line` for anonymous ones */
+  functions: string[];
+  /** Workspace-relative paths of the client files that call the canister */
+  files: string[];
+}
+
+export interface CanisterPlan {
+  canisters: PlannedCanister[];
+}
+
+/**
+ * A selected file together with the callables found in it
+ */
+export interface AnalyzedFile {
+  path: string;
+  filename: string;
+  content: string;
+  callables: CallableUnit[];
+  storageAccesses: StorageAccess[];
+}
+
+/**
+ * Gets the path the plan of a workspace is kept at, so later conversions keep the same canisters
+ */
+export function getCanisterPlanPath(projectPath: string): string {
+  return path.join(projectPath, '.icpilot', 'canister-plan.json');
+}
+
+/**
+ * Reads the plan saved by an earlier conversion, if any
+ */
+export function readCanisterPlan(projectPath: string): CanisterPlan | undefined {
+  const planPath = getCanisterPlanPath(projectPath);
+  if (!fs.existsSync(planPath)) {
+    return undefined;
+  }
+  try {
+    const plan = JSON.parse(fs.readFileSync(planPath, 'utf8'));
+    return validateAgainstSchema(plan, CANISTER_PLAN_SCHEMA).length === 0 ? plan : undefined;
+  } catch (error) {
+    log(`Ignoring unreadable canister plan at ${planPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Identifies a callable in a plan. Anonymous callables, such as route handlers, are
+ * identified by where they are defined.
+ */
+function getFunctionId(callable: CallableUnit, file: AnalyzedFile, projectPath: string): string {
+  return callable.name === ANONYMOUS
+    ? `${path.relative(projectPath, file.path)}:${callable.location.line}`
+    : callable.name;
+}
+
+function getFunctionIds(files: AnalyzedFile[], projectPath: string): Set<string> {
+  return new Set(files.flatMap(file => file.callables.map(c => getFunctionId(c, file, projectPath))));
+}
+
+/**
+ * Checks what the schema cannot: unique names, known functions and files, and that no
+ * function is implemented by more than one canister. Functions left out stay in the client.
+ * @param existingPlan The plan of an earlier conversion; its functions and files are known too,
+ * even when they are not among the files analyzed this time
+ */
+export function validateCanisterPlan(plan: CanisterPlan, files: AnalyzedFile[], projectPath: string, existingPlan?: CanisterPlan): string[] {
+  const problems: string[] = [];
+  if (plan.canisters.length === 0) {
+    problems.push('$.canisters: the plan must contain at least one canister');
+  }
+
+  const existingCanisters = existingPlan?.canisters ?? [];
+  const knownFunctions = new Set([...getFunctionIds(files, projectPath), ...existingCanisters.flatMap(canister => canister.functions)]);
+  const knownFiles = new Set([...files.map(file => path.relative(projectPath, file.path)), ...existingCanisters.flatMap(canister => canister.files)]);
+  const names = new Set<string>();
+  const owners = new Map<string, string>();
+
+  plan.canisters.forEach((canister, index) => {
+    const at = `$.canisters[${index}]`;
+    if (names.has(canister.name)) {
+      problems.push(`${at}.name: "${canister.name}" is used by more than one canister`);
+    }
+    names.add(canister.name);
+
+    // A canister without functions can still keep the data models and browser storage of its files
+    if (canister.functions.length === 0 && canister.files.length === 0) {
+      problems.push(`${at}.functions: a canister must implement at least one function or list the files whose data it keeps`);
+    }
+    for (const fn of canister.functions) {
+      if (!knownFunctions.has(fn)) {
+        problems.push(`${at}.functions: "${fn}" is not one of the analyzed functions`);
+      } else if (owners.has(fn)) {
+        problems.push(`${at}.functions: "${fn}" is already implemented by ${owners.get(fn)}`);
+      } else {
+        owners.set(fn, canister.name);
+      }
+    }
+    for (const file of canister.files) {
+      if (!knownFiles.has(file)) {
+        problems.push(`${at}.files: "${file}" is not one of the selected files`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Puts every function in a single canister; used when no split can be proposed
+ */
+export function createSingleCanisterPlan(files: AnalyzedFile[], projectPath: string): CanisterPlan {
+  return {
+    canisters: [{
+      name: DEFAULT_CANISTER_NAME,
+      description: 'All converted functionality',
+      functions: [...getFunctionIds(files, projectPath)],
+      files: files.map(file => path.relative(projectPath, file.path))
+    }]
+  };
+}
+
+/**
+ * Gets the files that define the functions a canister implements
+ */
+export function getCanisterSourceFiles(canister: PlannedCanister, files: AnalyzedFile[], projectPath: string): AnalyzedFile[] {
+  const functions = new Set(canister.functions);
+  return files.filter(file => file.callables.some(c => functions.has(getFunctionId(c, file, projectPath))));
+}
+
+/**
+ * Restricts the generation prompt of one canister to the functions assigned to it
+ */
+export function describeCanisterFocus(canister: PlannedCanister, functionalityFocus?: string): string {
+  const scope = `This canister is ${canister.name} (${canister.description}). Implement ONLY these functions in it: ${canister.functions.join(', ')}.`;
+  return functionalityFocus && functionalityFocus.trim() ? `${scope}
+${functionalityFocus}` : scope;
+}
+
+function createPlanPrompt(files: AnalyzedFile[], projectPath: string, functionalityFocus?: string, existingPlan?: CanisterPlan): string {
+  const inventory = files.map(file => {
+    const callables = file.callables
+      .map(c => `  - ${getFunctionId(c, file, projectPath)}(${c.params.join(', ')})${c.async ? ' [async]' : ''}`)
+      .join('\n');
+    return `FILE ${path.relative(projectPath, file.path)}:\n${callables}\n\`\`\`javascript\n${file.content}\n\`\`\``;
+  }).join('\n\n');
+
+  return `
+INSTRUCTIONS:
+You are an expert in ICP blockchain architecture.
+Split the functionality of the Web2 code below into Internet Computer canisters grouped by domain,
+for example UserCanister, OrderCanister and PaymentCanister. Keep functions that share state in the same canister.
+Small code bases with a single domain should use a single canister.
+${functionalityFocus && functionalityFocus.trim() ? `\nFOCUS ON THIS SPECIFIC FUNCTIONALITY:\n${functionalityFocus}\n` : ''}
+${existingPlan ? `\nThese canisters already exist. Keep their names and assignments where they still fit:\n${JSON.stringify(existingPlan, null, 2)}\n` : ''}
+RULES:
+- Every listed function that should move on-chain appears in exactly one canister's "functions", spelled exactly as listed.
+- Leave out pure client-side helpers such as formatting or DOM code.
+- "files" lists the paths of the files whose code calls the canister, exactly as given after FILE.
+- Canister names are valid Motoko identifiers.
+
+${inventory}
+
+Return a valid JSON object that validates against this JSON schema:
+${JSON.stringify(CANISTER_PLAN_SCHEMA, null, 2)}
+
+YOUR RESPONSE MUST BE A VALID JSON OBJECT THAT CAN BE PARSED WITH JSON.parse()
+DO NOT include any text outside the JSON object.
+`;
+}
+
+/**
+ * Asks the model for a domain split of the analyzed functions
+ * @param existingPlan The plan of an earlier conversion, whose canisters should be kept
+ */
+export async function proposeCanisterPlan(
+  files: AnalyzedFile[],
+  projectPath: string,
+  functionalityFocus?: string,
+  existingPlan?: CanisterPlan
+): Promise<CanisterPlan> {
+  const prompt = createPlanPrompt(files, projectPath, functionalityFocus, existingPlan);
+  return requestStructuredResponse(
+    prompt,
+    CANISTER_PLAN_FORMAT,
+    value => validateCanisterPlan(value, files, projectPath, existingPlan)
+  );
+}
+
+function parsePlanDocument(
+  text: string,
+  files: AnalyzedFile[],
+  projectPath: string,
+  existingPlan?: CanisterPlan
+): { plan?: CanisterPlan; problems: string[] } {
+  let plan: CanisterPlan;
+  try {
+    plan = JSON.parse(text);
+  } catch (error) {
+    return { problems: [`The plan is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const schemaErrors = validateAgainstSchema(plan, CANISTER_PLAN_SCHEMA);
+  if (schemaErrors.length > 0) {
+    return { problems: formatSchemaErrors(schemaErrors).split('\n') };
+  }
+  const problems = validateCanisterPlan(plan, files, projectPath, existingPlan);
+  return problems.length > 0 ? { problems } : { plan, problems };
+}
+
+/**
+ * Closes the unsaved document a plan was edited in, without asking to save it
+ */
+async function closePlanDocument(document: vscode.TextDocument): Promise<void> {
+  await vscode.window.showTextDocument(document, { preview: false });
+  await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+}
+
+/**
+ * Opens the proposed plan as an editable JSON document and waits until the user accepts it.
+ * Only the accepted plan is saved for the next conversion; cancelling keeps the saved one.
+ * @param existingPlan The plan of an earlier conversion
+ * @returns The accepted plan, or undefined if the user cancelled
+ */
+export async function editCanisterPlan(
+  proposed: CanisterPlan,
+  files: AnalyzedFile[],
+  projectPath: string,
+  existingPlan?: CanisterPlan
+): Promise<CanisterPlan | undefined> {
+  const document = await vscode.workspace.openTextDocument({ language: 'json', content: JSON.stringify(proposed, null, 2) + '\n' });
+  await vscode.window.showTextDocument(document, { preview: false });
+
+  let message = `ICPilot proposes ${proposed.canisters.length} canister(s): ${proposed.canisters.map(c => c.name).join(', ')}. Edit the plan if needed, then continue.`;
+  for (;;) {
+    const choice = await vscode.window.showInformationMessage(message, 'Use This Plan', 'Cancel');
+    if (choice !== 'Use This Plan') {
+      await closePlanDocument(document);
+      return undefined;
+    }
+
+    // Read from the editor so unsaved edits count
+    const { plan, problems } = parsePlanDocument(document.getText(), files, projectPath, existingPlan);
+    if (plan) {
+      const planPath = getCanisterPlanPath(projectPath);
+      await fs.promises.mkdir(path.dirname(planPath), { recursive: true });
+      await fs.promises.writeFile(planPath, JSON.stringify(plan, null, 2) + '\n');
+      await closePlanDocument(document);
+      return plan;
+    }
+    message = `The canister plan has ${problems.length} problem(s): ${problems.join('; ')}`;
+  }
+}
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+import { NetworkTarget } from './network';
+
+const fsPromises = fs.promises;
+
+/**
+ * Where the canisters of one network were deployed
+ */
+export interface NetworkDeployment {
+  host: string;
+  local: boolean;
+  /** Canister ID by canister name */
+  canisterIds: Record<string, string>;
+}
+
+/**
+ * Deployments of the workspace by network name, kept so the client config covers every
+ * network that was ever deployed to rather than only the last one
+ */
+export type Deployments = Record<string, NetworkDeployment>;
+
+/**
+ * Gets the path the deployments of a workspace are recorded at
+ */
+export function getDeploymentsPath(projectPath: string): string {
+  return path.join(projectPath, '.icpilot', 'deployments.json');
+}
+
+/**
+ * Gets the path of the generated client config module. It sits next to the generated
+ * declarations so clients import both from the same place.
+ */
+export function getClientConfigPath(projectPath: string): string {
+  return path.join(projectPath, 'src', 'declarations', 'icpilot-env.js');
+}
+
+function getClientConfigTypesPath(projectPath: string): string {
+  return getClientConfigPath(projectPath).replace(/\.js$/, '.d.ts');
+}
+
+/**
+ * Lists every file `writeClientConfig` writes, so a conversion can record them beforehand
+ */
+export function getClientConfigFiles(projectPath: string): string[] {
+  return [getDeploymentsPath(projectPath), getClientConfigPath(projectPath), getClientConfigTypesPath(projectPath)];
+}
+
+/**
+ * Reads the deployments recorded for a workspace
+ */
+export async function readDeployments(projectPath: string): Promise<Deployments> {
+  const deploymentsPath = getDeploymentsPath(projectPath);
+  if (!fs.existsSync(deploymentsPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(await fsPromises.readFile(deploymentsPath, 'utf8'));
+  } catch (error) {
+    log(`Ignoring unreadable deployments at ${deploymentsPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Renders the client config module. The network comes from `DFX_NETWORK`, and the host and
+ * canister IDs can be overridden with `ICPILOT_HOST` and dfx's `CANISTER_ID_<NAME>` variables.
+ * Each variable is read as a literal `process.env.NAME`, so bundlers can replace it at build time.
+ */
+function renderClientConfig(deployments: Deployments, defaultNetwork: string): string {
+  const canisterNames = [...new Set(Object.values(deployments).flatMap(deployment => Object.keys(deployment.canisterIds)))].sort();
+  const overrides = canisterNames.map(name => `  ${JSON.stringify(name)}: readEnv(() => process.env.CANISTER_ID_${name.toUpperCase()})`);
+  return `// Generated by ICPilot from the deployed canisters. Do not edit; redeploy or set
+// DFX_NETWORK, ICPILOT_HOST or CANISTER_ID_<NAME> instead.
+import { AnonymousIdentity, HttpAgent } from "@dfinity/agent";
+
+const deployments = ${JSON.stringify(deployments, null, 2)};
+
+// Browsers have no process unless the bundler replaced the variable
+function readEnv(read) {
+  try {
+    return read();
+  } catch {
+    return undefined;
+  }
+}
+
+export const network = readEnv(() => process.env.DFX_NETWORK) || ${JSON.stringify(defaultNetwork)};
+
+const deployment = deployments[network] || { host: undefined, local: false, canisterIds: {} };
+
+export const host = readEnv(() => process.env.ICPILOT_HOST) || deployment.host;
+
+export const isLocalNetwork = deployment.local;
+
+const canisterIdOverrides = {
+${overrides.join(',\n')}
+};
+
+export function getCanisterId(canisterName) {
+  const canisterId = canisterIdOverrides[canisterName] || deployment.canisterIds[canisterName];
+  if (!canisterId) {
+    throw new Error(\`No canister ID for \${canisterName} on network \${network}\`);
+  }
+  return canisterId;
+}
+
+let identity = new AnonymousIdentity();
+
+// Agents that sign with the current identity, switched over when it changes
+const agents = [];
+
+export function createAgent(options = {}) {
+  const agent = new HttpAgent({ host, identity, ...options });
+  if (!options.identity) {
+    agents.push(agent);
+  }
+  // Local replicas sign with their own root key; never fetch it on mainnet. Requests wait for
+  // it, since responses cannot be verified before it arrives.
+  if (isLocalNetwork) {
+    const rootKey = agent.fetchRootKey().catch(error => {
+      console.warn("Unable to fetch the root key. Is the local replica running?", error);
+    });
+    for (const method of ["call", "query", "readState"]) {
+      const send = agent[method].bind(agent);
+      agent[method] = async (...args) => {
+        await rootKey;
+        return send(...args);
+      };
+    }
+  }
+  return agent;
+}
+
+/**
+ * Makes every agent sign with an identity, such as the one of a user signed in with Internet
+ * Identity, or as anonymous when there is none. Actors created before keep working.
+ */
+export function setIdentity(nextIdentity) {
+  identity = nextIdentity || new AnonymousIdentity();
+  agents.forEach(agent => agent.replaceIdentity(identity));
+}
+`;
+}
+
+/**
+ * Renders the type declarations of the client config module
+ */
+function renderClientConfigTypes(): string {
+  return `// Generated by ICPilot. Do not edit.
+import type { HttpAgent, HttpAgentOptions, Identity } from "@dfinity/agent";
+
+export declare const network: string;
+export declare const host: string | undefined;
+export declare const isLocalNetwork: boolean;
+export declare function getCanisterId(canisterName: string): string;
+export declare function createAgent(options?: HttpAgentOptions): HttpAgent;
+export declare function setIdentity(identity?: Identity): void;
+`;
+}
+
+/**
+ * Records the canisters deployed to a network and regenerates the client config module
+ * with their IDs, keeping the IDs recorded for other networks
+ * @param defaultNetwork The network clients use unless `DFX_NETWORK` says otherwise
+ */
+export async function writeClientConfig(
+  projectPath: string,
+  network: NetworkTarget,
+  canisterIds: Map<string, string>,
+  defaultNetwork: string
+): Promise<void> {
+  const deployments = await readDeployments(projectPath);
+  deployments[network.name] = {
+    host: network.host,
+    local: network.local,
+    canisterIds: { ...deployments[network.name]?.canisterIds, ...Object.fromEntries(canisterIds) }
+  };
+
+  const [deploymentsPath, configPath, typesPath] = getClientConfigFiles(projectPath);
+  await fsPromises.mkdir(path.dirname(deploymentsPath), { recursive: true });
+  await fsPromises.mkdir(path.dirname(configPath), { recursive: true });
+  await fsPromises.writeFile(deploymentsPath, JSON.stringify(deployments, null, 2) + '\n');
+  await fsPromises.writeFile(configPath, renderClientConfig(deployments, defaultNetwork));
+  await fsPromises.writeFile(typesPath, renderClientConfigTypes());
+}
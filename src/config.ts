@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Supported LLM backends
+ */
+export type LlmProviderName = 'groq' | 'gemini' | 'local';
+
+/**
+ * How LLM calls interact with the recorded fixtures
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model?: string;
+  localEndpoint: string;
+  localApiKey?: string;
+  fixtureMode: FixtureMode;
+  /** Absolute path of the fixture directory, set when a workspace is open */
+  fixtureDirectory?: string;
+}
+
+/**
+ * Reads the LLM settings from the `icpilot.llm` configuration section
+ */
+export function getLlmSettings(): LlmSettings {
+  const config = vscode.workspace.getConfiguration('icpilot.llm');
+  const model = config.get<string>('model', '').trim();
+  const localApiKey = config.get<string>('localApiKey', '').trim();
+  const fixtureDirectory = config.get<string>('fixtureDirectory', '.icpilot/fixtures');
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  return {
+    provider: config.get<LlmProviderName>('provider', 'groq'),
+    model: model || undefined,
+    localEndpoint: config.get<string>('localEndpoint', 'http://localhost:11434/v1'),
+    localApiKey: localApiKey || undefined,
+    fixtureMode: config.get<FixtureMode>('fixtureMode', 'off'),
+    fixtureDirectory: path.isAbsolute(fixtureDirectory)
+      ? fixtureDirectory
+      : workspaceFolder && path.join(workspaceFolder.uri.fsPath, fixtureDirectory)
+  };
+}
+
+/**
+ * A named network as written to the `networks` section of dfx.json
+ */
+export interface DfxNetworkConfig {
+  /** URLs of the replicas serving the network; the first one is used by client code */
+  providers: string[];
+  type?: 'ephemeral' | 'persistent';
+}
+
+export interface DeploySettings {
+  /** Whether a canister that does not compile may be replaced by a simplified or placeholder one */
+  allowFallbackCanisters: boolean;
+  /** The network canisters are deployed to */
+  network: string;
+  /** Custom networks, by name, in addition to `local` and `ic` */
+  networks: Record<string, DfxNetworkConfig>;
+  /** Port the local replica is started on, if it is free */
+  replicaPort: number;
+  /** moc to check canisters with instead of the one of the active dfx version */
+  mocPath?: string;
+}
+
+/**
+ * Reads the deployment settings from the `icpilot.deploy` configuration section
+ */
+export function getDeploySettings(): DeploySettings {
+  const config = vscode.workspace.getConfiguration('icpilot.deploy');
+  return {
+    allowFallbackCanisters: config.get<boolean>('allowFallbackCanisters', false),
+    network: config.get<string>('network', 'local').trim() || 'local',
+    networks: config.get<Record<string, DfxNetworkConfig>>('networks', {}),
+    replicaPort: config.get<number>('replicaPort', 4943),
+    mocPath: config.get<string>('mocPath', '').trim() || undefined
+  };
+}
+
+/**
+ * How users of converted apps sign in
+ */
+export type ClientAuthentication = 'none' | 'internetIdentity';
+
+export interface ClientSettings {
+  /** Whether converted browser storage copies what the browser already kept into the canister on first use */
+  migrateBrowserStorage: boolean;
+  authentication: ClientAuthentication;
+}
+
+/**
+ * Reads the client code settings from the `icpilot.client` configuration section
+ */
+export function getClientSettings(): ClientSettings {
+  const config = vscode.workspace.getConfiguration('icpilot.client');
+  return {
+    migrateBrowserStorage: config.get<boolean>('migrateBrowserStorage', false),
+    authentication: config.get<ClientAuthentication>('authentication', 'none')
+  };
+}
@@ -0,0 +1,493 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as recast from 'recast';
+import { parseJavaScript } from './express-routes';
+import { MOTOKO_KEYWORDS } from './motoko-lexer';
+
+export type ModelSource = 'mongoose' | 'sequelize' | 'prisma' | 'sql';
+
+/** Motoko types model fields are stored as; dates, references and nested objects are kept as text */
+export type ModelFieldType = 'Text' | 'Int' | 'Float' | 'Bool';
+
+export interface ModelField {
+  /** Name in the Web2 code, which is also the Candid name */
+  name: string;
+  type: ModelFieldType;
+  array: boolean;
+  optional: boolean;
+}
+
+/**
+ * A database model found in the Web2 code. Records are keyed by an `id : Nat` the canister
+ * assigns, which replaces the model's own primary key.
+ */
+export interface DataModel {
+  /** Type name, e.g. `User` */
+  name: string;
+  source: ModelSource;
+  /** Path of the file defining the model */
+  file: string;
+  fields: ModelField[];
+  /** How the Web2 code refers to the model: `User` for `User.find()`, `prisma.user` for Prisma */
+  accessor: string;
+}
+
+/**
+ * A file that may define models
+ */
+export interface ModelSourceFile {
+  path: string;
+  content: string;
+}
+
+/** Primary keys the canister replaces with its own id */
+const KEY_FIELDS = new Set(['id', '_id']);
+
+const MONGOOSE_TYPES: Record<string, ModelFieldType> = {
+  String: 'Text',
+  Number: 'Float',
+  Decimal128: 'Float',
+  Boolean: 'Bool',
+  Date: 'Text',
+  ObjectId: 'Text',
+  Buffer: 'Text',
+  Mixed: 'Text',
+  Map: 'Text'
+};
+
+const SEQUELIZE_TYPES: Record<string, ModelFieldType> = {
+  INTEGER: 'Int',
+  BIGINT: 'Int',
+  SMALLINT: 'Int',
+  TINYINT: 'Int',
+  MEDIUMINT: 'Int',
+  FLOAT: 'Float',
+  DOUBLE: 'Float',
+  REAL: 'Float',
+  DECIMAL: 'Float',
+  BOOLEAN: 'Bool'
+};
+
+const PRISMA_TYPES: Record<string, ModelFieldType> = {
+  String: 'Text',
+  Int: 'Int',
+  BigInt: 'Int',
+  Float: 'Float',
+  Decimal: 'Float',
+  Boolean: 'Bool',
+  DateTime: 'Text',
+  Json: 'Text',
+  Bytes: 'Text'
+};
+
+function toPascalCase(text: string): string {
+  return text.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+function singularize(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|x|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Pluralizes a model name for its list method, e.g. `Category` becomes `Categories`
+ */
+export function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + 'ies';
+  if (/(s|x|ch|sh)$/i.test(word)) return word + 'es';
+  return word + 's';
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * Gets the Motoko identifier of a field. Keywords get a trailing underscore, which Motoko
+ * drops again in the Candid interface, so clients keep the original name.
+ */
+function toFieldIdentifier(name: string): string {
+  return MOTOKO_KEYWORDS.has(name) ? `${name}_` : name;
+}
+
+function isValidField(name: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9_]*$/.test(name) && !KEY_FIELDS.has(name);
+}
+
+function propertyKey(property: any): string | undefined {
+  if (!['Property', 'ObjectProperty'].includes(property.type) || property.computed) {
+    return undefined;
+  }
+  return property.key.type === 'Identifier' ? property.key.name : typeof property.key.value === 'string' ? property.key.value : undefined;
+}
+
+function findProperty(object: any, name: string): any {
+  return object?.type === 'ObjectExpression' ? object.properties.find((property: any) => propertyKey(property) === name)?.value : undefined;
+}
+
+function isTrue(node: any): boolean {
+  if (node?.type === 'ArrayExpression') {
+    return isTrue(node.elements[0]);
+  }
+  return ['Literal', 'BooleanLiteral'].includes(node?.type) && node.value === true;
+}
+
+/**
+ * Reads the type of a Mongoose schema path, e.g. `String`, `[String]` or `{ type: Number, required: true }`
+ */
+function readMongooseField(name: string, node: any): ModelField {
+  let array = false;
+  let definition = node;
+  if (definition.type === 'ArrayExpression') {
+    array = true;
+    definition = definition.elements[0];
+  }
+  const typeNode = definition?.type === 'ObjectExpression' ? findProperty(definition, 'type') : definition;
+  let typeName: string | undefined;
+  if (typeNode?.type === 'Identifier') {
+    typeName = typeNode.name;
+  } else if (typeNode?.type === 'MemberExpression' && !typeNode.computed) {
+    typeName = typeNode.property.name;
+  } else if (typeNode?.type === 'ArrayExpression') {
+    return { ...readMongooseField(name, typeNode), optional: !isTrue(findProperty(definition, 'required')) };
+  }
+  return {
+    name,
+    type: (typeName && MONGOOSE_TYPES[typeName]) || 'Text',
+    array,
+    optional: !(definition?.type === 'ObjectExpression' && isTrue(findProperty(definition, 'required')))
+  };
+}
+
+/**
+ * Reads the type of a Sequelize attribute, e.g. `DataTypes.STRING` or `{ type: DataTypes.INTEGER, allowNull: false }`
+ * @returns Undefined for the primary key
+ */
+function readSequelizeField(name: string, node: any): ModelField | undefined {
+  const options = node.type === 'ObjectExpression' ? node : undefined;
+  if (options && isTrue(findProperty(options, 'primaryKey'))) {
+    return undefined;
+  }
+  let typeNode = options ? findProperty(options, 'type') : node;
+  if (typeNode?.type === 'CallExpression') {
+    typeNode = typeNode.callee;
+  }
+  const typeName = typeNode?.type === 'MemberExpression' && !typeNode.computed ? typeNode.property.name : undefined;
+  const allowNull = options ? findProperty(options, 'allowNull') : undefined;
+  return {
+    name,
+    type: (typeName && SEQUELIZE_TYPES[typeName]) || 'Text',
+    array: typeName === 'ARRAY',
+    optional: !(['Literal', 'BooleanLiteral'].includes(allowNull?.type) && allowNull.value === false)
+  };
+}
+
+function readFields(object: any, readField: (name: string, node: any) => ModelField | undefined): ModelField[] {
+  return object.properties
+    .map((property: any) => {
+      const name = propertyKey(property);
+      return name && isValidField(name) ? readField(name, property.value) : undefined;
+    })
+    .filter((field: ModelField | undefined): field is ModelField => Boolean(field));
+}
+
+/**
+ * Finds Mongoose models and Sequelize models, defined with `define` or `Model.init`, in JavaScript
+ */
+function findJavaScriptModels(file: ModelSourceFile): DataModel[] {
+  let ast: any;
+  try {
+    ast = parseJavaScript(file.content);
+  } catch {
+    return [];
+  }
+  const schemas = new Map<string, any>();
+  const models: DataModel[] = [];
+  const isSchema = (node: any) => node?.type === 'NewExpression' &&
+    ((node.callee.type === 'Identifier' && node.callee.name === 'Schema') || (node.callee.type === 'MemberExpression' && node.callee.property.name === 'Schema')) &&
+    node.arguments[0]?.type === 'ObjectExpression';
+
+  recast.visit(ast, {
+    visitVariableDeclarator(nodePath: any) {
+      const { id, init } = nodePath.node;
+      if (id.type === 'Identifier' && isSchema(init)) {
+        schemas.set(id.name, init.arguments[0]);
+      }
+      this.traverse(nodePath);
+    }
+  });
+
+  recast.visit(ast, {
+    visitCallExpression(nodePath: any) {
+      const node = nodePath.node;
+      const callee = node.callee;
+      const method = callee.type === 'Identifier' ? callee.name : callee.type === 'MemberExpression' && !callee.computed ? callee.property.name : undefined;
+      const [first, second] = node.arguments;
+      const parent = nodePath.parent?.node;
+      const variable = parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier' ? parent.id.name : undefined;
+      const modelName = ['Literal', 'StringLiteral'].includes(first?.type) && typeof first.value === 'string' ? first.value : undefined;
+
+      // mongoose.model('User', userSchema)
+      if (method === 'model' && modelName) {
+        const schema = second?.type === 'Identifier' ? schemas.get(second.name) : isSchema(second) ? second.arguments[0] : undefined;
+        if (schema) {
+          models.push({ name: toPascalCase(modelName), source: 'mongoose', file: file.path, fields: readFields(schema, readMongooseField), accessor: variable ?? modelName });
+        }
+      }
+      // sequelize.define('User', { ... })
+      if (method === 'define' && modelName && second?.type === 'ObjectExpression') {
+        models.push({ name: toPascalCase(modelName), source: 'sequelize', file: file.path, fields: readFields(second, readSequelizeField), accessor: variable ?? modelName });
+      }
+      // class User extends Model {}; User.init({ ... }, { sequelize })
+      if (method === 'init' && callee.type === 'MemberExpression' && callee.object.type === 'Identifier' &&
+        first?.type === 'ObjectExpression' && findProperty(second, 'sequelize')) {
+        const name = callee.object.name;
+        models.push({ name: toPascalCase(name), source: 'sequelize', file: file.path, fields: readFields(first, readSequelizeField), accessor: name });
+      }
+      this.traverse(nodePath);
+    }
+  });
+  return models;
+}
+
+/**
+ * Finds the models of a Prisma schema. Relation fields are left out; the foreign keys they
+ * use are ordinary fields.
+ */
+function findPrismaModels(file: ModelSourceFile): DataModel[] {
+  const models: DataModel[] = [];
+  for (const match of file.content.matchAll(/^\s*model\s+(\w+)\s*\{([^}]*)\}/gm)) {
+    const fields: ModelField[] = [];
+    for (const line of match[2].split(/\r?\n/)) {
+      const field = /^\s*(\w+)\s+(\w+)(\[\])?(\?)?(.*)$/.exec(line);
+      if (!field || !isValidField(field[1]) || !PRISMA_TYPES[field[2]] || /@id\b/.test(field[5])) {
+        continue;
+      }
+      fields.push({ name: field[1], type: PRISMA_TYPES[field[2]], array: Boolean(field[3]), optional: Boolean(field[4]) });
+    }
+    models.push({ name: match[1], source: 'prisma', file: file.path, fields, accessor: `prisma.${lowerFirst(match[1])}` });
+  }
+  return models;
+}
+
+/**
+ * Reads the column list of a CREATE TABLE statement, up to its closing parenthesis
+ */
+function readColumnList(text: string, start: number): string {
+  let depth = 1;
+  let end = start;
+  for (; end < text.length && depth > 0; end++) {
+    if (text[end] === '(') depth++;
+    if (text[end] === ')') depth--;
+  }
+  return text.slice(start, end - 1);
+}
+
+function getSqlType(type: string): ModelFieldType {
+  if (/^(INT|INTEGER|SMALLINT|BIGINT|TINYINT|MEDIUMINT|SERIAL|BIGSERIAL|SMALLSERIAL)$/i.test(type)) return 'Int';
+  if (/^(REAL|FLOAT|DOUBLE|DECIMAL|NUMERIC|MONEY)$/i.test(type)) return 'Float';
+  if (/^(BOOLEAN|BOOL)$/i.test(type)) return 'Bool';
+  return 'Text';
+}
+
+/**
+ * Finds the tables of `CREATE TABLE` statements, in .sql files or in SQL strings in code
+ */
+function findSqlModels(file: ModelSourceFile): DataModel[] {
+  const models: DataModel[] = [];
+  const statement = /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"[]?(\w+)[`"\]]?\s*\(/gi;
+  for (const match of file.content.matchAll(statement)) {
+    const columns = readColumnList(file.content, (match.index ?? 0) + match[0].length);
+    // Split on commas outside of parentheses, e.g. not the one in DECIMAL(10, 2)
+    const definitions = columns.split(/,(?![^(]*\))/).map(definition => definition.trim());
+    const tableKey = definitions.map(definition => /^PRIMARY\s+KEY\s*\(\s*[`"]?(\w+)/i.exec(definition)?.[1]).find(Boolean);
+    const fields: ModelField[] = [];
+    for (const definition of definitions) {
+      const column = /^[`"[]?(\w+)[`"\]]?\s+(\w+)/.exec(definition);
+      if (!column || /^(PRIMARY|FOREIGN|UNIQUE|CONSTRAINT|CHECK|KEY|INDEX)$/i.test(column[1]) ||
+        !isValidField(column[1]) || column[1] === tableKey || /PRIMARY\s+KEY/i.test(definition)) {
+        continue;
+      }
+      fields.push({ name: column[1], type: getSqlType(column[2]), array: false, optional: !/NOT\s+NULL/i.test(definition) });
+    }
+    models.push({ name: toPascalCase(singularize(match[1])), source: 'sql', file: file.path, fields, accessor: match[1] });
+  }
+  return models;
+}
+
+/**
+ * Finds the Mongoose, Sequelize, Prisma and SQL models defined in the given files. A model
+ * defined more than once is taken from the first file defining it.
+ */
+export function findDataModels(files: ModelSourceFile[]): DataModel[] {
+  const models = new Map<string, DataModel>();
+  for (const file of files) {
+    const found = file.path.endsWith('.prisma') ? findPrismaModels(file)
+      : file.path.endsWith('.sql') ? findSqlModels(file)
+      : [...findJavaScriptModels(file), ...findSqlModels(file)];
+    for (const model of found) {
+      if (!models.has(model.name)) {
+        models.set(model.name, model);
+      }
+    }
+  }
+  return [...models.values()];
+}
+
+/**
+ * Reads the Prisma schema of a workspace, which is rarely among the selected files
+ */
+export async function readPrismaSchema(projectPath: string): Promise<ModelSourceFile | undefined> {
+  const schemaPath = path.join(projectPath, 'prisma', 'schema.prisma');
+  if (!fs.existsSync(schemaPath)) {
+    return undefined;
+  }
+  return { path: schemaPath, content: await fs.promises.readFile(schemaPath, 'utf8') };
+}
+
+/**
+ * Tells whether code uses a model, so the model can be stored by the canister that code goes to
+ */
+export function usesDataModel(code: string, model: DataModel): boolean {
+  const accessor = model.accessor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${accessor}\\.\\w+\\(`).test(code);
+}
+
+/**
+ * Names of the canister declarations of a model
+ */
+export function getModelNames(model: DataModel): {
+  input: string;
+  page: string;
+  records: string;
+  owners: string;
+  nextId: string;
+  key: string;
+  create: string;
+  get: string;
+  list: string;
+  update: string;
+  remove: string;
+} {
+  const base = lowerFirst(model.name);
+  return {
+    input: `${model.name}Input`,
+    page: `${model.name}Page`,
+    records: `${base}Records`,
+    owners: `${base}Owners`,
+    nextId: `next${model.name}Id`,
+    key: `${base}Key`,
+    create: `create${model.name}`,
+    get: `get${model.name}`,
+    list: `list${pluralize(model.name)}`,
+    update: `update${model.name}`,
+    remove: `delete${model.name}`
+  };
+}
+
+function getMotokoType(field: ModelField): string {
+  const type = field.array ? `[${field.type}]` : field.type;
+  return field.optional ? `?${type}` : type;
+}
+
+function toRecord(parts: string[]): string {
+  return parts.length > 0 ? `{ ${parts.join('; ')} }` : '{}';
+}
+
+/** Modules the generated storage uses. Order.Order is spelled out, since models are often called Order. */
+const MODEL_IMPORTS = ['Array', 'Iter', 'Nat', 'Option', 'Text', 'Trie'];
+
+/**
+ * Renders the record types, stable storage and paginated CRUD methods of the models, as an
+ * actor to merge into a canister
+ * @param authenticated Whether creating needs a signed-in caller and changing a record its owner.
+ * Owners are kept apart from the records, so the record types stay the same either way.
+ */
+export function renderModelStorage(canisterName: string, models: DataModel[], authenticated = false): string {
+  const shared = authenticated ? 'shared ({ caller }) ' : '';
+  const sections = models.map(model => {
+    const names = getModelNames(model);
+    const fields = model.fields.map(field => `${toFieldIdentifier(field.name)} : ${getMotokoType(field)}`);
+    const copy = (id: string) => toRecord([`id = ${id}`, ...model.fields.map(field => `${toFieldIdentifier(field.name)} = input.${toFieldIdentifier(field.name)}`)]);
+    const owner = (id: string) => `Trie.get(${names.owners}, ${names.key}(${id}), Nat.equal)`;
+    return `  // ${model.name}, from the ${model.source === 'sql' ? 'SQL table' : `${toPascalCase(model.source)} model`} ${model.accessor}
+  public type ${model.name} = ${toRecord(['id : Nat', ...fields])};
+  public type ${names.input} = ${toRecord(fields)};
+  public type ${names.page} = { items : [${model.name}]; total : Nat };
+
+  stable var ${names.records} : Trie.Trie<Nat, ${model.name}> = Trie.empty();
+  stable var ${names.nextId} : Nat = 1;
+${authenticated ? `  // Who created each record
+  stable var ${names.owners} : Trie.Trie<Nat, Principal> = Trie.empty();
+` : ''}
+  func ${names.key}(id : Nat) : Trie.Key<Nat> = { hash = Text.hash(Nat.toText(id)); key = id };
+
+  public ${shared}func ${names.create}(input : ${names.input}) : async ${model.name} {
+${authenticated ? '    requireAuthenticated(caller);\n' : ''}    let record : ${model.name} = ${copy(names.nextId)};
+    ${names.nextId} += 1;
+    ${names.records} := Trie.put(${names.records}, ${names.key}(record.id), Nat.equal, record).0;
+${authenticated ? `    ${names.owners} := Trie.put(${names.owners}, ${names.key}(record.id), Nat.equal, caller).0;\n` : ''}    record
+  };
+
+  public query func ${names.get}(id : Nat) : async ?${model.name} {
+    Trie.get(${names.records}, ${names.key}(id), Nat.equal)
+  };
+
+  // Records in the order they were created, \`limit\` at a time from \`offset\`
+  public query func ${names.list}(offset : Nat, limit : Nat) : async ${names.page} {
+    let records = Array.sort<${model.name}>(
+      Iter.toArray(Iter.map<(Nat, ${model.name}), ${model.name}>(Trie.iter(${names.records}), func(entry : (Nat, ${model.name})) : ${model.name} { entry.1 })),
+      func(a : ${model.name}, b : ${model.name}) : { #less; #equal; #greater } { Nat.compare(a.id, b.id) }
+    );
+    let start = Nat.min(offset, records.size());
+    let stop = Nat.min(start + limit, records.size());
+    { items = Array.tabulate<${model.name}>(stop - start, func(i : Nat) : ${model.name} { records[start + i] }); total = records.size() }
+  };
+
+  public ${shared}func ${names.update}(id : Nat, input : ${names.input}) : async ?${model.name} {
+    switch (Trie.get(${names.records}, ${names.key}(id), Nat.equal)) {
+      case null { null };
+      case (?_) {
+${authenticated ? `        requireOwner(caller, ${owner('id')});\n` : ''}        let record : ${model.name} = ${copy('id')};
+        ${names.records} := Trie.put(${names.records}, ${names.key}(id), Nat.equal, record).0;
+        ?record
+      };
+    }
+  };
+
+  public ${shared}func ${names.remove}(id : Nat) : async Bool {
+${authenticated ? `    if (Option.isSome(Trie.get(${names.records}, ${names.key}(id), Nat.equal))) {
+      requireOwner(caller, ${owner('id')});
+      ${names.owners} := Trie.remove(${names.owners}, ${names.key}(id), Nat.equal).0;
+    };
+` : ''}    let (remaining, removed) = Trie.remove(${names.records}, ${names.key}(id), Nat.equal);
+    ${names.records} := remaining;
+    Option.isSome(removed)
+  };`;
+  });
+  return [
+    ...MODEL_IMPORTS.map(name => `import ${name} "mo:base/${name}";`),
+    '',
+    `actor ${canisterName} {`,
+    sections.join('\n\n'),
+    '};',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Describes the storage of the models for the model writing the rest of the canister
+ */
+export function describeModelStorage(models: DataModel[], authenticated = false): string {
+  const lines = models.map(model => {
+    const names = getModelNames(model);
+    const fields = model.fields.map(field => `${toFieldIdentifier(field.name)} : ${getMotokoType(field)}`);
+    return `- ${model.name} (${model.source} ${model.accessor}): records ${toRecord(['id : Nat', ...fields])} ` +
+      `in stable var ${names.records}; methods ${names.create}, ${names.get}, ${names.list}(offset, limit), ${names.update} and ${names.remove}`;
+  });
+  return `DATA MODELS:
+The canister already stores these database models and exposes CRUD methods for them. Use them for that data, and do not declare other storage, types or methods for these models:
+${lines.join('\n')}${authenticated ? '\nCreating a record needs a signed-in caller, who becomes its owner; only the owner or an admin can update or delete it.' : ''}`;
+}
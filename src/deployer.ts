@@ -4,7 +4,24 @@ import * as path from 'path';
 import * as os from 'os';
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
-import { generateCanisterAndModifyCode } from './generator'; // Import for fallback
+import { getInternetIdentityDfxEntry, INTERNET_IDENTITY_CANISTER } from './auth';
+import { getDeclarationsOutput } from './candid';
+import { getDeploySettings } from './config';
+import { mergeDfxConfig, OwnedDfxEntries, readDfxConfig, validateDfxConfig } from './dfx-config';
+import { computeLineDiff } from './diff';
+import { installDfxSdk } from './dfx-installer';
+import { execLogged, log, logError, startPhase, streamProcessOutput } from './logger';
+import { clearMotokoDiagnostics, MotokoDiagnostic, parseMocOutput, publishMotokoDiagnostics } from './motoko-diagnostics';
+import { describeRepairFailure, repairMotokoCode } from './motoko-repair';
+import { getDfxNetworks, getLocalHost, LOCAL_NETWORK, NetworkTarget } from './network';
+import { describeToolchain, getMocCheckCommand, MotokoToolchain, resolveMotokoToolchain } from './toolchain';
+import {
+  checkUpgradeCompatibility,
+  compileInterfaces,
+  describeUpgradeProblems,
+  readDeployedInterfaces,
+  readWasmInterfaces
+} from './upgrade-check';
 
 const execPromise = promisify(exec);
 const fsPromises = fs.promises;
@@ -46,7 +63,7 @@ function preprocessMotokoCode(code: string): string {
     return code;
   }
   
-  console.log('Adding missing imports:', importStatements);
+  log('Adding missing imports:', importStatements.join(' '));
   
   // Add imports at the beginning of the file, or after actor declaration in simple cases
   if (hasActor && code.trim().startsWith('actor')) {
@@ -128,19 +145,18 @@ async function checkDfxBasePackages(): Promise<boolean> {
     const testFile = path.join(tempDir, 'test.mo');
     await fsPromises.writeFile(testFile, 'import Nat "mo:base/Nat"; actor {}');
     
-    const mocPath = `${os.homedir()}/.cache/dfinity/versions/0.25.0/moc`;
-    await execPromise(`"${mocPath}" "${testFile}" --check`);
+    await execLogged(getMocCheckCommand(await resolveMotokoToolchain(), testFile), {}, 'moc');
     
     // Clean up
     try {
       await fsPromises.rm(tempDir, { recursive: true, force: true });
     } catch (e) {
-      console.log('Could not remove temp directory:', e);
+      log('Could not remove temp directory:', e);
     }
     
     return true;
   } catch (error) {
-    console.error('Base package check failed:', error);
+    logError('Base package check failed:', error);
     return false;
   }
 }
@@ -153,34 +169,64 @@ async function fixDfxEnvironment(): Promise<boolean> {
     vscode.window.showInformationMessage('Trying to fix DFX environment...');
     
     // Update DFX
-    await execPromise('dfx upgrade');
+    await execLogged('dfx upgrade');
     
     // Install Motoko package
-    await execPromise('dfx cache install');
+    await execLogged('dfx cache install');
     
     // Verify the fix worked
     return await checkDfxBasePackages();
   } catch (error) {
-    console.error('Failed to fix DFX environment:', error);
+    logError('Failed to fix DFX environment:', error);
     return false;
   }
 }
 
 /**
- * Deploys a Motoko canister to the Internet Computer.
- * @param canisterName The name of the canister to deploy
+ * Code deployed in place of a canister that did not compile
+ */
+export type CanisterFallback = 'simplified' | 'minimal';
+
+export interface DeploymentResult {
+  canisterIds: Map<string, string>;
+  /** Canisters deployed with fallback code instead of the reviewed source */
+  fallbacks: Map<string, CanisterFallback>;
+  /** The network deployed to; for `local`, with the port the replica actually listens on */
+  network: NetworkTarget;
+  /** ID of the Internet Identity canister deployed for signing in locally */
+  internetIdentityId?: string;
+}
+
+/**
+ * Gets the dfx project directory ICPilot manages inside the workspace
+ */
+export function getIcProjectDir(projectPath: string): string {
+  return path.join(projectPath, 'icpilot');
+}
+
+/**
+ * Deploys Motoko canisters to the Internet Computer.
+ * @param canisterNames The canisters to deploy; each is read from `src/<name>.mo`
  * @param projectPath The local file path to the project
- * @returns A Promise that resolves to the canister ID
+ * @param network The network to deploy to; the local replica is started when it is `local`
+ * @param withInternetIdentity Whether to deploy Internet Identity as well, on the local network only
+ * @returns A Promise that resolves to the canister ID per canister name
  */
-export async function deployCanister(canisterName: string, projectPath: string): Promise<string> {
+export async function deployCanisters(
+  canisterNames: string[],
+  projectPath: string,
+  network: NetworkTarget,
+  withInternetIdentity = false
+): Promise<DeploymentResult> {
   return vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: `Deploying canister ${canisterName}...`,
+      title: `Deploying ${canisterNames.length === 1 ? `canister ${canisterNames[0]}` : `${canisterNames.length} canisters`} to ${network.name}...`,
       cancellable: false,
     },
     async (progress) => {
       try {
+        startPhase(`Deploy ${canisterNames.join(', ')} to ${network.name}`);
         progress.report({ increment: 10, message: 'Checking DFX installation...' });
         let dfxCheck = await checkDfxInstalled();
         if (!dfxCheck.installed) {
@@ -203,106 +249,58 @@ export async function deployCanister(canisterName: string, projectPath: string):
 
         progress.report({ increment: 30, message: `Using DFX version ${dfxCheck.version || 'unknown'}` });
 
-        const icProjectDir = path.join(projectPath, 'icpilot');
+        const icProjectDir = getIcProjectDir(projectPath);
         await createDirIfNotExists(icProjectDir);
         const srcDir = path.join(icProjectDir, 'src');
-        const canisterDir = path.join(srcDir, canisterName);
         await createDirIfNotExists(srcDir);
-        await createDirIfNotExists(canisterDir);
 
         progress.report({ increment: 40, message: 'Preparing canister files...' });
-        const sourceFile = path.join(projectPath, 'src', `${canisterName}.mo`);
-        const targetFile = path.join(canisterDir, 'main.mo');
-        if (!fs.existsSync(sourceFile)) {
-          throw new Error(`Canister source file not found: ${sourceFile}`);
+        for (const canisterName of canisterNames) {
+          const sourceFile = path.join(projectPath, 'src', `${canisterName}.mo`);
+          if (!fs.existsSync(sourceFile)) {
+            throw new Error(`Canister source file not found: ${sourceFile}`);
+          }
+          const canisterDir = path.join(srcDir, canisterName);
+          await createDirIfNotExists(canisterDir);
+          await fsPromises.copyFile(sourceFile, path.join(canisterDir, 'main.mo'));
+        }
+        await createDfxConfig(icProjectDir, canisterNames, withInternetIdentity);
+
+        let deployedNetwork = network;
+        if (network.name === LOCAL_NETWORK) {
+          progress.report({ increment: 60, message: 'Starting local replica...' });
+          startPhase('Start local replica');
+          const port = await startDfxReplica(icProjectDir);
+          deployedNetwork = { ...network, host: getLocalHost(port) };
         }
-        await fsPromises.copyFile(sourceFile, targetFile);
-        await createDfxConfig(icProjectDir, canisterName);
-
-        progress.report({ increment: 60, message: 'Starting local replica...' });
-        await startDfxReplica(icProjectDir);
 
-        progress.report({ increment: 80, message: 'Deploying to local replica...' });
-        const existingCanisterId = await getExistingCanisterId(icProjectDir, canisterName);
-        if (existingCanisterId) {
-          await upgradeCanister(icProjectDir, canisterName);
-          return existingCanisterId;
-        } else {
-          const canisterId = await deployToReplica(icProjectDir, canisterName, projectPath);
-          progress.report({ increment: 100, message: `Deployed canister ${canisterName} with ID: ${canisterId}` });
-          return canisterId;
+        const canisterIds = new Map<string, string>();
+        const fallbacks = new Map<string, CanisterFallback>();
+        for (const canisterName of canisterNames) {
+          progress.report({ message: `Deploying ${canisterName} to ${network.name}...` });
+          const upgrade = Boolean(await getExistingCanisterId(icProjectDir, canisterName, network.name));
+          const { canisterId, fallback } = await deployToReplica(icProjectDir, canisterName, projectPath, network.name, upgrade);
+          progress.report({ message: `Deployed canister ${canisterName} with ID: ${canisterId}` });
+          canisterIds.set(canisterName, canisterId);
+          if (fallback) {
+            fallbacks.set(canisterName, fallback);
+          }
+        }
+        let internetIdentityId: string | undefined;
+        if (withInternetIdentity && network.name === LOCAL_NETWORK) {
+          progress.report({ message: 'Deploying Internet Identity...' });
+          internetIdentityId = await deployInternetIdentity(icProjectDir);
         }
+        progress.report({ increment: 100 });
+        return { canisterIds, fallbacks, network: deployedNetwork, internetIdentityId };
       } catch (error) {
-        console.error('Deployment error:', error);
+        logError('Deployment error:', error);
         throw new Error(`Failed to deploy canister: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   );
 }
 
-/**
- * Installs the DFINITY SDK using the official installation script
- */
-async function installDfxSdk(): Promise<void> {
-  return new Promise<void>(async (resolve, reject) => {
-    try {
-      vscode.window.showInformationMessage('Installing DFINITY SDK...');
-
-      const platform = os.platform();
-      let installCmd: string;
-      let installArgs: string[];
-
-      if (platform === 'darwin') {
-        installCmd = 'sh';
-        installArgs = ['-ci', '$(curl -fsSL https://internetcomputer.org/install.sh)'];
-      } else if (platform === 'linux') {
-        installCmd = 'sh';
-        installArgs = ['-c', 'curl -fsSL https://internetcomputer.org/install.sh | sh'];
-        try {
-          vscode.window.showInformationMessage('Installing libunwind-dev dependency...');
-          await execPromise('apt-get -y update && apt-get -y install libunwind-dev');
-        } catch (err) {
-          vscode.window.showWarningMessage('Could not install libunwind-dev. You may need to do this manually.');
-        }
-      } else if (platform === 'win32') {
-        installCmd = 'powershell.exe';
-        installArgs = ['-Command', 'iex ((New-Object System.Net.WebClient).DownloadString(\'https://internetcomputer.org/install.ps1\'))'];
-      } else {
-        reject(new Error(`Unsupported platform: ${platform}. Please install DFX manually.`));
-        return;
-      }
-
-      const installProcess = spawn(installCmd, installArgs, { shell: true, stdio: 'inherit' });
-
-      installProcess.on('error', (err) => {
-        reject(new Error(`Failed to start DFX installation: ${err.message}`));
-      });
-
-      installProcess.on('close', async (code) => {
-        if (code === 0) {
-          if (platform === 'darwin') {
-            try {
-              const envScript = `${os.homedir()}/Library/Application Support/org.dfinity.dfx/env`;
-              const { stdout } = await execPromise(`source "${envScript}" && env`);
-              stdout.split('\n').forEach(line => {
-                const [key, value] = line.split('=');
-                if (key && value) process.env[key] = value;
-              });
-            } catch (err) {
-              vscode.window.showWarningMessage('Could not source DFX environment. You may need to restart VS Code.');
-            }
-          }
-          resolve();
-        } else {
-          reject(new Error(`DFX installation failed with exit code ${code}. Please try installing manually.`));
-        }
-      });
-    } catch (error) {
-      reject(error);
-    }
-  });
-}
-
 /**
  * Checks if DFX is installed on the system
  */
@@ -323,7 +321,7 @@ async function checkDfxInstalled(): Promise<{installed: boolean, message?: strin
       };
     }
   } catch (error) {
-    console.error('Error checking DFX:', error);
+    log('DFX is not in PATH:', error);
     const homeDir = os.homedir();
     const potentialPaths = [
       path.join(homeDir, '.local', 'bin', 'dfx'),
@@ -359,34 +357,70 @@ async function createDirIfNotExists(dirPath: string): Promise<void> {
 }
 
 /**
- * Creates or updates the dfx.json configuration file
+ * Gets the last line a command printed, for error messages; the full output is in the log
  */
-async function createDfxConfig(projectDir: string, canisterName: string): Promise<void> {
-  const dfxConfig = {
-    version: 1,
-    canisters: {
-      [canisterName]: {
-        main: `src/${canisterName}/main.mo`,
-        type: "motoko"
-      }
-    },
-    defaults: {
-      build: {
-        args: "",
-        packtool: ""
-      }
-    },
-    networks: {
-      local: {
-        bind: "127.0.0.1:4943",
-        type: "ephemeral"
-      }
-    }
-  };
+function lastLine(output: string): string {
+  return output.trim().split(/\r?\n/).pop()?.trim() || '(no output)';
+}
+
+/**
+ * Merges entries into dfx.json, validating the result before it is written
+ */
+async function writeDfxConfig(projectDir: string, owned: OwnedDfxEntries): Promise<void> {
+  const existing = await readDfxConfig(projectDir);
+  const dfxConfig = mergeDfxConfig(existing, owned);
+
+  const problems = validateDfxConfig(dfxConfig, projectDir);
+  if (problems.length > 0) {
+    throw new Error(`dfx.json would be invalid, so it was not written: ${problems.join('; ')}`);
+  }
+  if (JSON.stringify(dfxConfig) === JSON.stringify(existing)) {
+    return;
+  }
   const dfxPath = path.join(projectDir, 'dfx.json');
   await fsPromises.writeFile(dfxPath, JSON.stringify(dfxConfig, null, 2));
 }
 
+/**
+ * Creates dfx.json, or merges ICPilot's canisters and networks into the existing one.
+ * Everything else in the file is kept, and the result is validated before it is written.
+ * @param withInternetIdentity Whether to add the development build of Internet Identity
+ */
+async function createDfxConfig(projectDir: string, canisterNames: string[], withInternetIdentity = false): Promise<void> {
+  const canisters: OwnedDfxEntries['canisters'] = Object.fromEntries(canisterNames.map(canisterName => [canisterName, {
+    main: `src/${canisterName}/main.mo`,
+    type: "motoko",
+    declarations: {
+      output: getDeclarationsOutput(canisterName),
+      bindings: ["js", "ts", "did"]
+    }
+  }]));
+  const settings = getDeploySettings();
+  // Keep pointing at a replica ICPilot already runs, even if it had to pick another port
+  const localPort = (await readReplicaState(projectDir))?.port ?? settings.replicaPort;
+  if (withInternetIdentity) {
+    canisters[INTERNET_IDENTITY_CANISTER] = getInternetIdentityDfxEntry();
+  }
+  await writeDfxConfig(projectDir, { canisters, networks: getDfxNetworks(settings, localPort) });
+}
+
+/**
+ * Deploys the development build of Internet Identity to the local replica, where converted
+ * clients sign in. dfx downloads the module from the Internet Identity releases.
+ * @returns The ID of the Internet Identity canister
+ */
+async function deployInternetIdentity(projectDir: string): Promise<string> {
+  startPhase(`Deploy ${INTERNET_IDENTITY_CANISTER} to ${LOCAL_NETWORK}`);
+  try {
+    await execLogged(`dfx deploy ${INTERNET_IDENTITY_CANISTER} --network ${LOCAL_NETWORK}`, { cwd: projectDir });
+    const { stdout } = await execPromise(`dfx canister id ${INTERNET_IDENTITY_CANISTER} --network ${LOCAL_NETWORK}`, { cwd: projectDir });
+    return stdout.trim();
+  } catch (error) {
+    logError('Error deploying Internet Identity:', error);
+    throw new Error(`Failed to deploy Internet Identity: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 const net = require('net');
 
 /**
@@ -413,312 +447,543 @@ function isPortFree(port: number): Promise<boolean> {
 }
 
 /**
- * Starts the DFX replica if not already running, forcing port 4943
+ * Finds the first free port at or after a preferred one
  */
-async function startDfxReplica(projectDir: string): Promise<void> {
-  try {
-    try {
-      await execPromise('dfx stop', { cwd: projectDir });
-      console.log('Stopped any existing DFX replica');
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (stopError) {
-      console.log('No existing replica to stop or stop failed, proceeding...');
+async function findFreePort(preferredPort: number): Promise<number> {
+  for (let port = preferredPort; port < preferredPort + 100 && port <= 65535; port++) {
+    if (await isPortFree(port)) {
+      return port;
     }
+  }
+  throw new Error(`No free port found between ${preferredPort} and ${preferredPort + 99}`);
+}
 
-    const fixedPort = 4943;
+/**
+ * A local replica ICPilot started. Only replicas recorded here are ever stopped.
+ */
+export interface ReplicaState {
+  /** Process ID of the background replica, when dfx reported one */
+  pid?: number;
+  port: number;
+  startedAt: string;
+}
 
-    if (!(await isPortFree(fixedPort))) {
-      console.log(`Port ${fixedPort} is in use, attempting to free it...`);
-      try {
-        const { stdout } = await execPromise(`lsof -i :${fixedPort} -t`);
-        const pid = stdout.trim();
-        if (pid) {
-          await execPromise(`kill -9 ${pid}`);
-          console.log(`Killed process ${pid} on port ${fixedPort}`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      } catch (killError) {
-        throw new Error(`Port ${fixedPort} is in use and could not be freed. Please stop the process manually.`);
+function getReplicaStatePath(projectDir: string): string {
+  return path.join(projectDir, '.icpilot-replica.json');
+}
+
+/**
+ * Reads the record of the replica ICPilot started for a dfx project, if any
+ */
+export async function readReplicaState(projectDir: string): Promise<ReplicaState | undefined> {
+  const statePath = getReplicaStatePath(projectDir);
+  if (!fs.existsSync(statePath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await fsPromises.readFile(statePath, 'utf8'));
+  } catch (error) {
+    log(`Ignoring unreadable replica state at ${statePath}:`, error);
+    return undefined;
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Reads the process ID dfx records for the background replica of a project network
+ */
+async function readDfxReplicaPid(projectDir: string): Promise<number | undefined> {
+  const pidPath = path.join(projectDir, '.dfx', 'network', 'local', 'pid');
+  if (!fs.existsSync(pidPath)) {
+    return undefined;
+  }
+  const pid = parseInt((await fsPromises.readFile(pidPath, 'utf8')).trim(), 10);
+  return Number.isNaN(pid) ? undefined : pid;
+}
+
+async function pingReplica(projectDir: string): Promise<boolean> {
+  try {
+    const { stdout } = await execPromise(`dfx ping`, { cwd: projectDir });
+    log(`DFX replica responded: ${stdout.trim()}`);
+    return true;
+  } catch (pingError) {
+    return false;
+  }
+}
+
+async function bindLocalNetwork(projectDir: string, port: number): Promise<void> {
+  await writeDfxConfig(projectDir, { canisters: {}, networks: { local: { bind: `127.0.0.1:${port}` } } });
+}
+
+/**
+ * Starts the local replica of a dfx project unless it is already running. The configured
+ * port is used if it is free; otherwise the next free port is. Nothing else is stopped.
+ * @returns The port the replica listens on
+ */
+export async function startDfxReplica(projectDir: string): Promise<number> {
+  try {
+    const state = await readReplicaState(projectDir);
+    if (state && (state.pid === undefined || isProcessRunning(state.pid))) {
+      await bindLocalNetwork(projectDir, state.port);
+      if (await pingReplica(projectDir)) {
+        log(`Reusing the replica ICPilot started on port ${state.port}`);
+        return state.port;
       }
     }
+    if (state) {
+      await fsPromises.rm(getReplicaStatePath(projectDir), { force: true });
+    }
 
-    const dfxJsonPath = path.join(projectDir, 'dfx.json');
-    const dfxConfig = JSON.parse(await fsPromises.readFile(dfxJsonPath, 'utf8'));
-    dfxConfig.networks.local.bind = `127.0.0.1:${fixedPort}`;
-    await fsPromises.writeFile(dfxJsonPath, JSON.stringify(dfxConfig, null, 2));
+    const preferredPort = getDeploySettings().replicaPort;
+    if (!(await isPortFree(preferredPort))) {
+      // The project's replica may have been started by hand; use it, but never stop it
+      await bindLocalNetwork(projectDir, preferredPort);
+      if (await pingReplica(projectDir)) {
+        log(`Using the replica already running on port ${preferredPort}`);
+        return preferredPort;
+      }
+    }
 
-    try {
-      const { stdout } = await execPromise(`dfx ping`, { cwd: projectDir });
-      console.log(`DFX replica already running on port ${fixedPort}: ${stdout}`);
-      vscode.window.showInformationMessage(`Local Internet Computer replica is running on port ${fixedPort}`);
-      return;
-    } catch (pingError) {
-      console.log(`DFX replica not running on port ${fixedPort}, starting it...`);
+    const port = await findFreePort(preferredPort);
+    if (port !== preferredPort) {
+      log(`Port ${preferredPort} is in use by another process, using port ${port}`);
+      vscode.window.showInformationMessage(`Port ${preferredPort} is in use. Starting the local replica on port ${port} instead.`);
     }
+    await bindLocalNetwork(projectDir, port);
 
-    vscode.window.showInformationMessage(`Starting local Internet Computer replica on port ${fixedPort}...`);
+    vscode.window.showInformationMessage(`Starting local Internet Computer replica on port ${port}...`);
 
     const dfxDir = path.join(projectDir, '.dfx');
-    const startCmd = fs.existsSync(dfxDir) ? `dfx start --background --host 127.0.0.1:${fixedPort}` : `dfx start --clean --background --host 127.0.0.1:${fixedPort}`;
+    const startCmd = fs.existsSync(dfxDir) ? `dfx start --background --host 127.0.0.1:${port}` : `dfx start --clean --background --host 127.0.0.1:${port}`;
+    log(`$ ${startCmd} (in ${projectDir})`);
     const startProcess = spawn(startCmd, { shell: true, cwd: projectDir });
+    const startOutput = streamProcessOutput(startProcess, 'dfx start');
 
-    let startOutput = '';
-    startProcess.stdout?.on('data', (data) => {
-      startOutput += data.toString();
-      console.log('dfx start output:', data.toString());
-    });
-    startProcess.stderr?.on('data', (data) => {
-      startOutput += data.toString();
-      console.error('dfx start error:', data.toString());
-    });
-
+    // Thrown from the wait loop below; throwing in the handler would escape every caller
+    let startError: Error | undefined;
     startProcess.on('error', (err) => {
-      throw new Error(`Failed to start DFX replica: ${err.message}`);
+      startError = err;
     });
 
     let attempts = 0;
     const maxAttempts = 24;
     while (attempts < maxAttempts) {
-      try {
-        const { stdout } = await execPromise(`dfx ping`, { cwd: projectDir });
-        console.log(`DFX replica started successfully: ${stdout}`);
-        vscode.window.showInformationMessage(`Local Internet Computer replica is running on port ${fixedPort}`);
-        return;
-      } catch (pingError) {
-        attempts++;
-        console.log(`Ping attempt ${attempts}/${maxAttempts} failed: ${pingError}`);
-        await new Promise(resolve => setTimeout(resolve, 5000));
+      if (startError) {
+        throw new Error(`Could not run dfx start: ${startError.message}`);
+      }
+      if (await pingReplica(projectDir)) {
+        const replica: ReplicaState = { pid: await readDfxReplicaPid(projectDir), port, startedAt: new Date().toISOString() };
+        await fsPromises.writeFile(getReplicaStatePath(projectDir), JSON.stringify(replica, null, 2));
+        vscode.window.showInformationMessage(`Local Internet Computer replica is running on port ${port}`);
+        return port;
       }
+      attempts++;
+      log(`Ping attempt ${attempts}/${maxAttempts} failed`);
+      await new Promise(resolve => setTimeout(resolve, 5000));
     }
 
-    throw new Error(`DFX replica failed to start on port ${fixedPort} after 120 seconds. Output: ${startOutput}`);
+    throw new Error(`DFX replica failed to start on port ${port} after 120 seconds. Last output: ${lastLine(startOutput())}`);
   } catch (error) {
-    console.error('Error starting replica:', error);
+    logError('Error starting replica:', error);
     throw new Error(`Failed to start DFX replica: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Gets the ID of an existing canister if it exists
+ * Stops the local replica of a dfx project, but only if ICPilot started it
+ * @returns Whether a replica was stopped
+ */
+export async function stopDfxReplica(projectDir: string): Promise<boolean> {
+  const state = await readReplicaState(projectDir);
+  if (!state) {
+    log('No replica started by ICPilot is recorded, leaving any running replica alone');
+    return false;
+  }
+  if (state.pid === undefined || isProcessRunning(state.pid)) {
+    await execLogged('dfx stop', { cwd: projectDir });
+    log(`Stopped the replica ICPilot started on port ${state.port}`);
+  }
+  await fsPromises.rm(getReplicaStatePath(projectDir), { force: true });
+  return true;
+}
+
+/**
+ * Whether the local replica runs, and whether ICPilot started it
  */
-async function getExistingCanisterId(projectDir: string, canisterName: string): Promise<string | null> {
+export interface ReplicaStatus {
+  /** `external` means the port is taken by a process ICPilot did not start */
+  state: 'running' | 'stopped' | 'external';
+  port: number;
+}
+
+/**
+ * Gets the status of the local replica of a dfx project without contacting it
+ */
+export async function getReplicaStatus(projectDir: string): Promise<ReplicaStatus> {
+  const state = await readReplicaState(projectDir);
+  if (state && (state.pid === undefined || isProcessRunning(state.pid)) && !(await isPortFree(state.port))) {
+    return { state: 'running', port: state.port };
+  }
+  const port = getDeploySettings().replicaPort;
+  return { state: (await isPortFree(port)) ? 'stopped' : 'external', port };
+}
+
+/**
+ * Stops the replica ICPilot started and deletes the local network's state, including every
+ * canister deployed to it. Refuses while a replica ICPilot did not start is running.
+ */
+export async function cleanDfxReplica(projectDir: string): Promise<void> {
+  if (!(await stopDfxReplica(projectDir)) && (await getReplicaStatus(projectDir)).state === 'external') {
+    throw new Error('A replica ICPilot did not start is using the port. Stop it yourself before cleaning.');
+  }
+  await fsPromises.rm(path.join(projectDir, '.dfx', 'network', 'local'), { recursive: true, force: true });
+  await fsPromises.rm(path.join(projectDir, '.dfx', 'local'), { recursive: true, force: true });
+}
+
+/**
+ * Gets the ID of an existing canister on a network if it exists. dfx keeps the IDs of each
+ * network separately, so the same canister has a different ID on every network.
+ */
+export async function getExistingCanisterId(projectDir: string, canisterName: string, network: string): Promise<string | null> {
   try {
-    const { stdout } = await execPromise(`dfx canister id ${canisterName}`, { cwd: projectDir });
+    const { stdout } = await execPromise(`dfx canister id ${canisterName} --network ${network}`, { cwd: projectDir });
     const canisterId = stdout.trim();
     if (canisterId) {
       return canisterId;
     }
     return null;
   } catch (error) {
-    console.log(`Canister ${canisterName} does not exist yet.`);
+    log(`Canister ${canisterName} does not exist on ${network} yet.`);
     return null;
   }
 }
 
 /**
- * Upgrades an existing canister
+ * Gets the wasm module dfx built for a canister in the last deploy
+ */
+export function getBuiltModulePath(projectPath: string, canisterName: string, network: string): string {
+  return path.join(getIcProjectDir(projectPath), '.dfx', network, 'canisters', canisterName, `${canisterName}.wasm`);
+}
+
+/**
+ * Upgrades a deployed canister to a specific wasm module, e.g. one kept by an earlier conversion.
+ * Refuses if the module cannot take over the canister's stable data. Its Candid interface is not
+ * checked: a rollback removes the methods added since, and undo restores the clients with it.
+ */
+export async function installCanisterModule(
+  projectPath: string,
+  canisterName: string,
+  wasmPath: string,
+  network: string
+): Promise<void> {
+  const icProjectDir = getIcProjectDir(projectPath);
+  if (network === LOCAL_NETWORK) {
+    await startDfxReplica(icProjectDir);
+  }
+  startPhase(`Install earlier module of ${canisterName} on ${network}`);
+  const problems = await checkUpgradeCompatibility(
+    await resolveMotokoToolchain(),
+    canisterName,
+    await readDeployedInterfaces(icProjectDir, canisterName, network),
+    await readWasmInterfaces(wasmPath),
+    false
+  );
+  if (problems.length > 0) {
+    throw new Error(describeUpgradeProblems(canisterName, network, problems));
+  }
+  try {
+    await execLogged(
+      `dfx canister install ${canisterName} --mode=upgrade --wasm "${wasmPath}" --network ${network}`,
+      { cwd: icProjectDir }
+    );
+  } catch (error) {
+    logError('Error installing canister module:', error);
+    throw new Error(`Failed to install module ${wasmPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Removes the code of a deployed canister, leaving an empty canister behind
  */
-async function upgradeCanister(projectDir: string, canisterName: string): Promise<void> {
+export async function uninstallCanisterCode(projectPath: string, canisterName: string, network: string): Promise<void> {
+  const icProjectDir = getIcProjectDir(projectPath);
+  if (network === LOCAL_NETWORK) {
+    await startDfxReplica(icProjectDir);
+  }
+  startPhase(`Uninstall code of ${canisterName} on ${network}`);
   try {
-    const { stdout } = await execPromise(`dfx canister install ${canisterName} --mode=upgrade`, { cwd: projectDir });
-    console.log('Canister upgrade output:', stdout);
+    await execLogged(`dfx canister uninstall-code ${canisterName} --network ${network}`, { cwd: icProjectDir });
   } catch (error) {
-    console.error('Error upgrading canister:', error);
-    throw new Error(`Failed to upgrade canister: ${error instanceof Error ? error.message : String(error)}`);
+    logError('Error uninstalling canister code:', error);
+    throw new Error(`Failed to uninstall canister code: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Replaces a canister that does not compile with code that does: a copy of the user's code
+ * simplified to avoid the base package, or failing that a minimal placeholder actor.
+ * Refuses unless fallbacks are explicitly allowed, since either can lose the user's functions.
+ * @returns Which fallback was deployed
+ */
+async function applyFallbackCanister(
+  canisterName: string,
+  faultyMoContent: string,
+  moFile: string,
+  toolchain: MotokoToolchain,
+  projectDir: string,
+  reason: string
+): Promise<CanisterFallback> {
+  if (!getDeploySettings().allowFallbackCanisters) {
+    throw new Error(
+      `${canisterName} does not compile (${reason}). Nothing was deployed because fallback canisters are disabled ` +
+      `(icpilot.deploy.allowFallbackCanisters).`
+    );
+  }
+
+  // Create a simplified version that doesn't use base packages
+  log('Creating simplified canister...');
+  const simplifiedCode = createSimplifiedMotokoCode(faultyMoContent);
+  log('Simplified Motoko code:\n' + simplifiedCode);
+  await fsPromises.writeFile(moFile, simplifiedCode, 'utf8');
+  if ((await checkMotokoFile(toolchain, moFile, projectDir)).length === 0) {
+    log('Simplified code syntax check succeeded');
+    return 'simplified';
+  }
+
+  // If all else fails, create a minimal valid canister
+  logError('Simplified canister does not compile either. Using minimal canister.');
+  const minimalCanister = `
+actor {
+  public func process(input : Text) : async Text {
+    return "Processed: " # input;
+  };
+}`;
+  await fsPromises.writeFile(moFile, minimalCanister, 'utf8');
+  return 'minimal';
+}
+
+/**
+ * Extracts the diagnostics for a file from a failed moc run
+ */
+function getMocDiagnostics(mocError: unknown, moFile: string): MotokoDiagnostic[] {
+  const { stdout = '', stderr = '' } = mocError as { stdout?: string; stderr?: string };
+  const output = `${stdout}\n${stderr}`.trim() || (mocError instanceof Error ? mocError.message : String(mocError));
+  return parseMocOutput(output)
+    .filter(diagnostic => !diagnostic.file || path.resolve(diagnostic.file) === path.resolve(moFile));
+}
+
+/**
+ * Runs `moc --check` on a file
+ * @returns moc's diagnostics for the file; an empty list means it compiled
+ */
+async function checkMotokoFile(toolchain: MotokoToolchain, moFile: string, projectDir: string): Promise<MotokoDiagnostic[]> {
+  try {
+    await execLogged(getMocCheckCommand(toolchain, moFile), { cwd: projectDir }, 'moc');
+    return [];
+  } catch (mocError) {
+    const diagnostics = getMocDiagnostics(mocError, moFile);
+    if (diagnostics.length > 0) {
+      return diagnostics;
+    }
+    // moc failed without saying where, e.g. because it could not be started
+    const message = mocError instanceof Error ? mocError.message : String(mocError);
+    return [{ line: 1, column: 1, endLine: 1, endColumn: 1, severity: 'error', message }];
   }
 }
 
 /**
- * Deploys the canister to the local replica and returns the canister ID, with fallbacks for common issues
+ * Publishes the problems of a failed moc check on the workspace source of the canister,
+ * mapping lines back across the imports added by preprocessing
+ * @returns The number of errors reported
  */
-async function deployToReplica(projectDir: string, canisterName: string, projectPath: string): Promise<string> {
+async function reportMocErrors(mocError: unknown, moFile: string, sourceFile: string): Promise<number> {
+  const diagnostics = getMocDiagnostics(mocError, moFile);
+  if (diagnostics.length === 0 || !fs.existsSync(sourceFile)) {
+    return 0;
+  }
+
+  const [source, compiled] = await Promise.all([
+    fsPromises.readFile(sourceFile, 'utf8'),
+    fsPromises.readFile(moFile, 'utf8')
+  ]);
+  publishMotokoDiagnostics(sourceFile, diagnostics, computeLineDiff(source, compiled));
+
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  if (errorCount > 0) {
+    vscode.window.showWarningMessage(
+      `moc reported ${errorCount} error(s) in ${path.basename(sourceFile)}.`,
+      'Show Problems'
+    ).then(selection => {
+      if (selection === 'Show Problems') {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+      }
+    });
+  }
+  return errorCount;
+}
+
+/**
+ * Deploys the canister to a network and returns the canister ID, with fallbacks for common issues
+ * @param upgrade Whether the canister exists already; its upgrade is checked for compatibility first
+ */
+async function deployToReplica(
+  projectDir: string,
+  canisterName: string,
+  projectPath: string,
+  network: string,
+  upgrade: boolean
+): Promise<{ canisterId: string; fallback?: CanisterFallback }> {
+  let fallback: CanisterFallback | undefined;
   try {
-    vscode.window.showInformationMessage('Deploying canister to local replica...');
+    vscode.window.showInformationMessage(`Deploying canister to ${network}...`);
 
     const moFile = path.join(projectDir, 'src', canisterName, 'main.mo');
-    const mocPath = `${os.homedir()}/.cache/dfinity/versions/0.25.0/moc`;
+    const sourceFile = path.join(projectPath, 'src', `${canisterName}.mo`);
+    startPhase(`Check ${canisterName} with moc`);
+    let toolchain = await resolveMotokoToolchain();
+    log(`Checking ${canisterName} with ${describeToolchain(toolchain)}`);
 
     // First, preprocess the Motoko file to add any missing imports
     try {
       const originalMoContent = await fsPromises.readFile(moFile, 'utf8');
-      console.log('Original Motoko content:', originalMoContent);
       
       // Add missing imports if needed
       const preprocessedMoContent = preprocessMotokoCode(originalMoContent);
       
       // Only write back if changes were made
       if (preprocessedMoContent !== originalMoContent) {
-        console.log('Preprocessed Motoko content with imports:', preprocessedMoContent);
+        log('Preprocessed Motoko content with imports:\n' + preprocessedMoContent);
         await fsPromises.writeFile(moFile, preprocessedMoContent, 'utf8');
       }
     } catch (preprocessError) {
-      console.error('Error preprocessing Motoko file:', preprocessError);
+      logError('Error preprocessing Motoko file:', preprocessError);
     }
 
     // Pre-check: Validate Motoko file syntax with moc
     try {
-      const { stdout, stderr } = await execPromise(`"${mocPath}" "${moFile}" --check`, { cwd: projectDir });
-      console.log('Motoko syntax check output:', stdout);
-      if (stderr) console.error('Motoko syntax check stderr:', stderr);
+      await execLogged(getMocCheckCommand(toolchain, moFile), { cwd: projectDir }, 'moc');
+      log(`${canisterName} compiles`);
+      clearMotokoDiagnostics(sourceFile);
     } catch (mocError) {
-      console.error('Motoko syntax check failed:', mocError);
+      logError('Motoko syntax check failed');
       const errorMessage = mocError instanceof Error ? mocError.message : String(mocError);
 
+      // A missing base package is an environment problem, not a problem in the user's code
+      if (!errorMessage.includes('package "base" not defined')) {
+        await reportMocErrors(mocError, moFile, sourceFile);
+      }
+
       // Read the faulty Motoko file
       const faultyMoContent = await fsPromises.readFile(moFile, 'utf8');
-      console.log('Faulty Motoko content:', faultyMoContent);
 
       // Check if it's a "package base not defined" error
       if (errorMessage.includes('package "base" not defined')) {
-        console.log('Detected "base" package missing error. Attempting to fix...');
+        log('Detected "base" package missing error. Attempting to fix...');
         
         // Try to fix the DFX environment first
+        let unresolvedError: unknown = mocError;
         const fixed = await fixDfxEnvironment();
         if (fixed) {
-          console.log('Successfully fixed DFX environment. Retrying deployment...');
-          // Retry the deployment after fixing the environment
+          log('Successfully fixed DFX environment. Retrying deployment...');
+          // The fix may have installed another dfx version
+          toolchain = await resolveMotokoToolchain();
           try {
-            const { stdout } = await execPromise(`"${mocPath}" "${moFile}" --check`, { cwd: projectDir });
-            console.log('Motoko syntax check after DFX fix succeeded:', stdout);
+            await execLogged(getMocCheckCommand(toolchain, moFile), { cwd: projectDir }, 'moc');
+            log('Motoko syntax check after DFX fix succeeded');
+            clearMotokoDiagnostics(sourceFile);
+            unresolvedError = undefined;
           } catch (retryError) {
-            console.error('Still having issues after DFX fix. Creating simplified canister...');
-            
-            // Create a simplified version that doesn't use base packages
-            const simplifiedCode = createSimplifiedMotokoCode(faultyMoContent);
-            console.log('Simplified Motoko code:', simplifiedCode);
-            await fsPromises.writeFile(moFile, simplifiedCode, 'utf8');
-            
-            try {
-              const { stdout } = await execPromise(`"${mocPath}" "${moFile}" --check`, { cwd: projectDir });
-              console.log('Simplified code syntax check succeeded:', stdout);
-            } catch (finalError) {
-              // If all else fails, create a minimal valid canister
-              const minimalCanister = `
-actor {
-  public func process(input : Text) : async Text {
-    return "Processed: " # input;
-  };
-}`;
-              await fsPromises.writeFile(moFile, minimalCanister, 'utf8');
-            }
+            logError('Still having issues after DFX fix.');
+            await reportMocErrors(retryError, moFile, sourceFile);
+            unresolvedError = retryError;
           }
         } else {
-          // If we couldn't fix DFX, create a simplified canister that doesn't rely on base packages
-          console.log('Could not fix DFX environment. Creating simplified canister...');
-          const simplifiedCode = createSimplifiedMotokoCode(faultyMoContent);
-          console.log('Simplified Motoko code:', simplifiedCode);
-          await fsPromises.writeFile(moFile, simplifiedCode, 'utf8');
-          
-          try {
-            const { stdout } = await execPromise(`"${mocPath}" "${moFile}" --check`, { cwd: projectDir });
-            console.log('Simplified code syntax check succeeded:', stdout);
-          } catch (finalError) {
-            // Last resort: minimal valid canister
-            const minimalCanister = `
-actor {
-  public func process(input : Text) : async Text {
-    return "Processed: " # input;
-  };
-}`;
-            await fsPromises.writeFile(moFile, minimalCanister, 'utf8');
-          }
+          logError('Could not fix DFX environment.');
+        }
+
+        if (unresolvedError) {
+          const reason = unresolvedError instanceof Error ? unresolvedError.message : String(unresolvedError);
+          fallback = await applyFallbackCanister(canisterName, faultyMoContent, moFile, toolchain, projectDir, reason);
         }
       } else {
-        // For other errors, use the general LLM-based correction approach
-        // ...existing fallback code using generateCanisterAndModifyCode...
-        const fallbackPrompt = `
-INSTRUCTIONS:
-The following Motoko file has a syntax error and failed to compile with the error:
-"${errorMessage}"
-Your task is to fix the Motoko code while keeping the function names and functionality the same.
-
-IMPORTANT: Do NOT use any imports from mo:base packages as they are not accessible.
-Instead, write simpler code that doesn't require imports.
-
-FAULTY MOTOKO CODE:
-\`\`\`motoko
-${faultyMoContent}
-\`\`\`
-
-EXAMPLE OF A VALID MINIMAL MOTOKO FILE:
-\`\`\`motoko
-actor {
-  public func greet(name : Text) : async Text {
-    return "Hello " # name;
-  };
-  
-  public func count(n : Nat) : async Text {
-    return "Count: " # debug_show(n);
-  };
-}
-\`\`\`
+        // For other errors, let the model repair the code from moc's diagnostics
+        const repair = await repairMotokoCode(
+          canisterName,
+          faultyMoContent,
+          await checkMotokoFile(toolchain, moFile, projectDir),
+          async (candidate) => {
+            await fsPromises.writeFile(moFile, candidate, 'utf8');
+            return checkMotokoFile(toolchain, moFile, projectDir);
+          }
+        );
+        await fsPromises.writeFile(moFile, repair.code, 'utf8');
+        if (!repair.fixed) {
+          throw new Error(describeRepairFailure(canisterName, repair));
+        }
 
-OUTPUT REQUIREMENTS:
-- Return a corrected version of the Motoko code WITHOUT ANY IMPORTS
-- Keep the original function names and their functionality intact when possible
-- Output in VALID JSON format with this exact key:
-  - canisterCode: The corrected Motoko code
-`;
+        // The workspace source is what later conversions merge into, so it gets the repair too
+        await fsPromises.writeFile(sourceFile, repair.code, 'utf8');
+        clearMotokoDiagnostics(sourceFile);
+        log(`Repaired ${canisterName} in ${repair.rounds.length - 1} round(s) and saved the repair to ${sourceFile}`);
+        vscode.window.showInformationMessage(
+          `ICPilot repaired ${repair.rounds[0].errorCount} compile error(s) in ${canisterName} and saved the repaired code to ${path.basename(sourceFile)}.`,
+          'Open File'
+        ).then(selection => {
+          if (selection === 'Open File') {
+            vscode.window.showTextDocument(vscode.Uri.file(sourceFile));
+          }
+        });
+      }
+    }
 
-        // Call Groq to fix the code
-        const { canisterCode } = await generateCanisterAndModifyCode(fallbackPrompt, undefined, false, canisterName);
-        console.log('Corrected Motoko code from LLM:', canisterCode);
-
-        // Write the corrected code back to main.mo
-        await fsPromises.writeFile(moFile, canisterCode, 'utf8');
-
-        // Re-check the corrected file
-        try {
-          const { stdout } = await execPromise(`"${mocPath}" "${moFile}" --check`, { cwd: projectDir });
-          console.log('Corrected Motoko syntax check succeeded:', stdout);
-        } catch (retryError) {
-          // Last resort: minimal valid canister
-          console.error('All correction attempts failed. Using minimal canister.');
-          const minimalCanister = `
-actor {
-  public func process(input : Text) : async Text {
-    return "Processed: " # input;
-  };
-}`;
-          await fsPromises.writeFile(moFile, minimalCanister, 'utf8');
-        }
+    // An upgrade keeps the canister's stable data, so the new version must be able to read it
+    if (upgrade) {
+      startPhase(`Check upgrade of ${canisterName} on ${network}`);
+      const problems = await checkUpgradeCompatibility(
+        toolchain,
+        canisterName,
+        await readDeployedInterfaces(projectDir, canisterName, network),
+        await compileInterfaces(toolchain, moFile, projectDir)
+      );
+      if (problems.length > 0) {
+        throw new Error(describeUpgradeProblems(canisterName, network, problems));
       }
     }
 
     // Deploy with detailed output
-    const deployProcess = spawn('dfx', ['deploy', '--verbose'], { cwd: projectDir, shell: true });
-    // ... rest of the existing deployment code
-    let deployOutput = '';
-    let deployError = '';
-
-    deployProcess.stdout.on('data', (data) => {
-      deployOutput += data.toString();
-      console.log('dfx deploy output:', data.toString());
-    });
-
-    deployProcess.stderr.on('data', (data) => {
-      deployError += data.toString();
-      console.error('dfx deploy error:', data.toString());
-    });
+    startPhase(`Deploy ${canisterName} to ${network}`);
+    const deployArgs = ['deploy', canisterName, '--network', network, '--verbose'];
+    log(`$ dfx ${deployArgs.join(' ')} (in ${projectDir})`);
+    const deployProcess = spawn('dfx', deployArgs, { cwd: projectDir, shell: true });
+    const deployOutput = streamProcessOutput(deployProcess, 'dfx deploy');
 
     const deployExitCode = await new Promise<number>((resolve) => {
       deployProcess.on('close', (code) => resolve(code ?? 1));
       deployProcess.on('error', (err) => {
-        console.error('Deploy process error:', err);
+        logError('Deploy process error:', err);
         resolve(1);
       });
     });
 
     if (deployExitCode !== 0) {
-      throw new Error(`Deployment failed with exit code ${deployExitCode}. Output: ${deployOutput}\nError: ${deployError}`);
+      throw new Error(`dfx deploy exited with code ${deployExitCode}: ${lastLine(deployOutput())}`);
     }
 
-    const { stdout: idOutput } = await execPromise(`dfx canister id ${canisterName}`, { cwd: projectDir });
+    const { stdout: idOutput } = await execPromise(`dfx canister id ${canisterName} --network ${network}`, { cwd: projectDir });
     const canisterId = idOutput.trim();
-    vscode.window.showInformationMessage(`Canister deployed with ID: ${canisterId}`);
-    return canisterId;
+    vscode.window.showInformationMessage(`Canister deployed to ${network} with ID: ${canisterId}`);
+    return { canisterId, fallback };
   } catch (error) {
-    console.error('Deployment error:', error);
+    logError('Deployment error:', error);
     throw new Error(`Failed to deploy canister: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
\ No newline at end of file
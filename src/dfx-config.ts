@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const fsPromises = fs.promises;
+
+/**
+ * The parts of dfx.json ICPilot reads or writes. Everything else in the file is kept as is.
+ */
+export interface DfxConfig {
+  version?: number;
+  canisters?: Record<string, any>;
+  defaults?: Record<string, any>;
+  networks?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * The entries ICPilot owns in dfx.json
+ */
+export interface OwnedDfxEntries {
+  /** Canister entries by name; keys not listed here are left alone */
+  canisters: Record<string, Record<string, any>>;
+  /** Network entries by name; `local` only has the keys listed here replaced */
+  networks: Record<string, Record<string, any>>;
+}
+
+/**
+ * Reads dfx.json from a dfx project
+ * @returns The parsed file, or undefined if there is none
+ */
+export async function readDfxConfig(projectDir: string): Promise<DfxConfig | undefined> {
+  const dfxPath = path.join(projectDir, 'dfx.json');
+  if (!fs.existsSync(dfxPath)) {
+    return undefined;
+  }
+  const text = await fsPromises.readFile(dfxPath, 'utf8');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `${dfxPath} is not valid JSON (${error instanceof Error ? error.message : String(error)}). ` +
+      'Fix or remove it; ICPilot will not overwrite it.'
+    );
+  }
+}
+
+/**
+ * Merges ICPilot's entries into an existing dfx.json. Canisters and networks ICPilot does not
+ * own, and the keys of its own canisters it does not set, such as `dependencies`, are kept.
+ * Refuses to take over a canister of the same name that was defined for something else.
+ */
+export function mergeDfxConfig(existing: DfxConfig | undefined, owned: OwnedDfxEntries): DfxConfig {
+  const config: DfxConfig = JSON.parse(JSON.stringify(existing ?? {}));
+  if (!existing) {
+    config.version = 1;
+    config.defaults = { build: { args: '', packtool: '' } };
+  }
+  config.canisters ??= {};
+  config.networks ??= {};
+
+  for (const [name, entry] of Object.entries(owned.canisters)) {
+    const current = config.canisters[name];
+    if (current && (current.type !== entry.type || (current.main && current.main !== entry.main))) {
+      throw new Error(
+        `dfx.json already defines a canister named "${name}" (type ${current.type ?? 'unknown'}` +
+        `${current.main ? `, main ${current.main}` : ''}). Rename the canister in the plan or remove the entry.`
+      );
+    }
+    config.canisters[name] = { ...current, ...entry };
+  }
+
+  for (const [name, entry] of Object.entries(owned.networks)) {
+    // The local network may carry replica settings of its own; keep them
+    config.networks[name] = name === 'local' ? { ...config.networks[name], ...entry } : entry;
+  }
+
+  return config;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a dfx.json before it is written, so a broken file never reaches dfx
+ * @param projectDir The dfx project directory, used to check that canister sources exist
+ * @returns A description of every problem found
+ */
+export function validateDfxConfig(config: DfxConfig, projectDir: string): string[] {
+  const problems: string[] = [];
+  if (config.version !== undefined && config.version !== 1) {
+    problems.push(`version: expected 1, got ${JSON.stringify(config.version)}`);
+  }
+
+  if (!isObject(config.canisters)) {
+    problems.push('canisters: must be an object');
+  } else {
+    const names = new Set(Object.keys(config.canisters));
+    for (const [name, canister] of Object.entries(config.canisters)) {
+      const at = `canisters.${name}`;
+      if (!isObject(canister)) {
+        problems.push(`${at}: must be an object`);
+        continue;
+      }
+      if (canister.type === 'motoko') {
+        if (typeof canister.main !== 'string') {
+          problems.push(`${at}.main: a Motoko canister needs a main file`);
+        } else if (!fs.existsSync(path.resolve(projectDir, canister.main))) {
+          problems.push(`${at}.main: ${canister.main} does not exist`);
+        }
+      }
+      if (canister.dependencies !== undefined) {
+        if (!Array.isArray(canister.dependencies)) {
+          problems.push(`${at}.dependencies: must be an array`);
+        } else {
+          for (const dependency of canister.dependencies) {
+            if (!names.has(dependency)) {
+              problems.push(`${at}.dependencies: "${dependency}" is not a canister in dfx.json`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (config.networks !== undefined) {
+    if (!isObject(config.networks)) {
+      problems.push('networks: must be an object');
+    } else {
+      for (const [name, network] of Object.entries(config.networks)) {
+        const at = `networks.${name}`;
+        if (!isObject(network)) {
+          problems.push(`${at}: must be an object`);
+        } else if (typeof network.bind !== 'string' && !(Array.isArray(network.providers) && network.providers.length > 0)) {
+          problems.push(`${at}: needs either "bind" or a non-empty "providers" list`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
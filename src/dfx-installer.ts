@@ -4,6 +4,7 @@ import * as path from 'path';
 import { spawn,exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
+import { execLogged, log, logError, startPhase, streamProcessOutput } from './logger';
 
 const execPromise = promisify(exec);
 
@@ -14,6 +15,7 @@ const execPromise = promisify(exec);
 export async function installDfxSdk(): Promise<void> {
   return new Promise<void>(async (resolve, reject) => {
     try {
+      startPhase('Install DFINITY SDK');
       vscode.window.showInformationMessage('Installing DFINITY SDK...');
 
       const platform = os.platform();
@@ -29,8 +31,9 @@ export async function installDfxSdk(): Promise<void> {
         installArgs = ['-c', 'curl -fsSL https://internetcomputer.org/install.sh | sh'];
         try {
           vscode.window.showInformationMessage('Installing libunwind-dev dependency...');
-          await execPromise('apt-get -y update && apt-get -y install libunwind-dev');
+          await execLogged('apt-get -y update && apt-get -y install libunwind-dev', {}, 'apt-get');
         } catch (err) {
+          logError('Could not install libunwind-dev:', err);
           vscode.window.showWarningMessage('Could not install libunwind-dev. You may need to install this dependency manually.');
         }
       } else if (platform === 'win32') {
@@ -42,18 +45,9 @@ export async function installDfxSdk(): Promise<void> {
       }
 
       // Execute the installation command
+      log(`$ ${installCmd} ${installArgs.join(' ')}`);
       const installProcess = spawn(installCmd, installArgs, { shell: true, stdio: 'pipe' });
-      let installOutput = '';
-      
-      installProcess.stdout?.on('data', (data) => {
-        installOutput += data.toString();
-        console.log('DFX install output:', data.toString());
-      });
-      
-      installProcess.stderr?.on('data', (data) => {
-        installOutput += data.toString();
-        console.error('DFX install error:', data.toString());
-      });
+      streamProcessOutput(installProcess, 'dfx install');
 
       installProcess.on('error', (err) => {
         reject(new Error(`Failed to start DFX installation: ${err.message}`));
@@ -69,16 +63,16 @@ export async function installDfxSdk(): Promise<void> {
             // Try to initialize the cache as well
             vscode.window.showInformationMessage('Installing DFX cache packages...');
             try {
-              await execPromise('dfx cache install');
+              await execLogged('dfx cache install');
             } catch (cacheError) {
-              console.log('Cache installation error:', cacheError);
+              logError('Cache installation error:', cacheError);
               // Try again with the full path
               const dfxPath = await getDfxPath();
               if (dfxPath) {
                 try {
-                  await execPromise(`"${dfxPath}" cache install`);
+                  await execLogged(`"${dfxPath}" cache install`, {}, 'dfx');
                 } catch (secondCacheError) {
-                  console.log('Second cache installation attempt failed:', secondCacheError);
+                  logError('Second cache installation attempt failed:', secondCacheError);
                 }
               }
             }
@@ -87,7 +81,7 @@ export async function installDfxSdk(): Promise<void> {
             vscode.window.showInformationMessage(`DFX installed successfully: ${stdout.trim()}`);
             resolve();
           } catch (verifyError) {
-            console.log('DFX verification error:', verifyError);
+            logError('DFX verification error:', verifyError);
             // Try with full path
             const dfxPath = await getDfxPath();
             if (dfxPath) {
@@ -96,7 +90,7 @@ export async function installDfxSdk(): Promise<void> {
                 vscode.window.showInformationMessage(`DFX installed successfully: ${stdout.trim()}`);
                 resolve();
               } catch (fullPathError) {
-                console.error('Error verifying DFX with full path:', fullPathError);
+                logError('Error verifying DFX with full path:', fullPathError);
                 vscode.window.showWarningMessage('DFX was installed but requires environment setup. Continuing with installation.');
                 resolve();
               }
@@ -106,7 +100,7 @@ export async function installDfxSdk(): Promise<void> {
             }
           }
         } else {
-          reject(new Error(`DFX installation failed with exit code ${code}. Please try installing manually.\n\nOutput: ${installOutput}`));
+          reject(new Error(`DFX installation failed with exit code ${code}. Please try installing manually.`));
         }
       });
     } catch (error) {
@@ -149,7 +143,7 @@ async function updateEnvironmentVariables(): Promise<void> {
   }
   
   if (pathsAdded) {
-    console.log('Added DFX paths to PATH:', process.env.PATH);
+    log('Added DFX paths to PATH:', process.env.PATH);
   }
 
   // For macOS, source the environment script
@@ -166,9 +160,9 @@ async function updateEnvironmentVariables(): Promise<void> {
             process.env[key] = value;
           }
         }
-        console.log('Sourced DFX environment variables');
+        log('Sourced DFX environment variables');
       } catch (error) {
-        console.log('Error sourcing DFX environment:', error);
+        logError('Error sourcing DFX environment:', error);
       }
     }
   }
@@ -210,7 +204,7 @@ async function getDfxPath(): Promise<string | null> {
 export async function verifyDfxInstallation(): Promise<boolean> {
   try {
     const { stdout } = await execPromise('dfx --version');
-    console.log(`DFX version: ${stdout.trim()}`);
+    log(`DFX version: ${stdout.trim()}`);
     return true;
   } catch (error) {
     // Try with full path
@@ -218,7 +212,7 @@ export async function verifyDfxInstallation(): Promise<boolean> {
     if (dfxPath) {
       try {
         const { stdout } = await execPromise(`"${dfxPath}" --version`);
-        console.log(`DFX version (full path): ${stdout.trim()}`);
+        log(`DFX version (full path): ${stdout.trim()}`);
         return true;
       } catch (fullPathError) {
         return false;
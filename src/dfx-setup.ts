@@ -5,6 +5,9 @@ import * as os from 'os';
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 
+import { execLogged, logError, startPhase } from './logger';
+import { getMocCheckCommand, resolveMotokoToolchain } from './toolchain';
+
 const execPromise = promisify(exec);
 
 /**
@@ -32,10 +35,8 @@ export async function checkDfxStatus(): Promise<DfxStatus> {
     const testFile = path.join(tempDir, 'test.mo');
     await fs.promises.writeFile(testFile, 'import Nat "mo:base/Nat"; actor {}');
     
-    const mocPath = `${os.homedir()}/.cache/dfinity/versions/0.25.0/moc`;
-    
     try {
-      await execPromise(`"${mocPath}" "${testFile}" --check`);
+      await execPromise(getMocCheckCommand(await resolveMotokoToolchain(), testFile));
       
       // Clean up
       await fs.promises.rm(tempDir, { recursive: true, force: true });
@@ -57,25 +58,26 @@ export async function checkDfxStatus(): Promise<DfxStatus> {
  */
 export async function fixDfxPackages(): Promise<boolean> {
   try {
+    startPhase('Fix DFX packages');
     vscode.window.showInformationMessage('Attempting to fix DFX packages...');
     
     // First try updating DFX
     try {
       vscode.window.showInformationMessage('Updating DFX...');
-      await execPromise('dfx upgrade');
+      await execLogged('dfx upgrade');
     } catch (upgradeError) {
-      console.error('DFX upgrade failed:', upgradeError);
+      logError('DFX upgrade failed:', upgradeError);
     }
     
     // Ensure cache is populated
     vscode.window.showInformationMessage('Installing DFX cache...');
-    await execPromise('dfx cache install');
+    await execLogged('dfx cache install');
     
     // Check if fix worked
     const status = await checkDfxStatus();
     return status === DfxStatus.FullyInstalled;
   } catch (error) {
-    console.error('Failed to fix DFX packages:', error);
+    logError('Failed to fix DFX packages:', error);
     return false;
   }
 }
@@ -0,0 +1,92 @@
+/**
+ * A contiguous run of changed lines between two versions of a file
+ */
+export interface DiffHunk {
+  /** 0-based index of the first replaced line in the original */
+  oldStart: number;
+  removed: string[];
+  /** 0-based index of the first inserted line in the proposed version */
+  newStart: number;
+  added: string[];
+}
+
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split('\n');
+}
+
+/**
+ * Computes the changed regions between two texts, line by line
+ */
+export function computeLineDiff(original: string, proposed: string): DiffHunk[] {
+  const a = splitLines(original);
+  const b = splitLines(proposed);
+
+  // Common prefix and suffix never need the LCS table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const n = aMid.length;
+  const m = bMid.length;
+
+  // lcs[i * (m + 1) + j] = length of the LCS of aMid[i..] and bMid[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = aMid[i] === bMid[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let i = 0;
+  let j = 0;
+  const flush = () => {
+    if (current) hunks.push(current);
+    current = undefined;
+  };
+  const open = () => {
+    if (!current) current = { oldStart: prefix + i, removed: [], newStart: prefix + j, added: [] };
+    return current;
+  };
+
+  while (i < n || j < m) {
+    if (i < n && j < m && aMid[i] === bMid[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      open().added.push(bMid[j++]);
+    } else {
+      open().removed.push(aMid[i++]);
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+/**
+ * Rebuilds the original text with only the accepted hunks applied
+ * @param accepted Indexes into `hunks` of the changes to keep
+ */
+export function applyHunks(original: string, hunks: DiffHunk[], accepted: Set<number>): string {
+  const lines = splitLines(original);
+  const result: string[] = [];
+  let position = 0;
+
+  hunks.forEach((hunk, index) => {
+    result.push(...lines.slice(position, hunk.oldStart));
+    result.push(...(accepted.has(index) ? hunk.added : hunk.removed));
+    position = hunk.oldStart + hunk.removed.length;
+  });
+  result.push(...lines.slice(position));
+
+  return result.join('\n');
+}
@@ -0,0 +1,804 @@
+import * as recast from 'recast';
+import * as babelTsParser from 'recast/parsers/babel-ts';
+import { MOTOKO_KEYWORDS } from './motoko-lexer';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const HTTP_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE'
+};
+
+/**
+ * An Express or Koa route handler and the canister method it becomes. Every method takes the
+ * path parameters, then the request body for methods that have one, all as text, and returns
+ * the response body as JSON text.
+ */
+export interface ExpressRoute {
+  method: HttpMethod;
+  /** Route path as registered, e.g. `/users/:id` */
+  path: string;
+  /** Path parameters in order, as Motoko identifiers */
+  params: string[];
+  /** Name of the canister method */
+  methodName: string;
+  /** GETs only read state, so they become query calls */
+  kind: 'query' | 'update';
+  hasBody: boolean;
+  /** Status of a successful response, as the handler sets it */
+  status: number;
+  file: string;
+  /** 1-based line of the handler function */
+  handlerLine: number;
+  /** Name of the handler function, if it is not inline */
+  handlerName?: string;
+  handlerSource: string;
+  /** The canister method, when the handler is one the rules translate */
+  motoko?: string;
+  /** Whether the method rejects anonymous callers; only update methods do */
+  authenticated?: boolean;
+}
+
+/**
+ * A module-level array the handlers keep their data in. It becomes a stable array of JSON texts.
+ */
+export interface RouteCollection {
+  name: string;
+  /** Initial items as JSON */
+  items: string[];
+}
+
+export interface RouteConversion {
+  routes: ExpressRoute[];
+  collections: RouteCollection[];
+}
+
+/**
+ * A source file to look for routes in
+ */
+export interface RouteSourceFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Parses JavaScript with esprima, falling back to Babel for syntax esprima does not know,
+ * such as TypeScript, optional chaining and object spread
+ */
+export function parseJavaScript(code: string): any {
+  try {
+    return recast.parse(code);
+  } catch {
+    return recast.parse(code, { parser: babelTsParser });
+  }
+}
+
+/** Conversions handlers wrap route parameters in, e.g. `parseInt(req.params.id)` */
+const PARAM_CONVERSIONS = new Set(['parseInt', 'Number', 'String', 'parseFloat']);
+
+/**
+ * Evaluates a literal that can be sent as JSON; undefined if the node is anything else
+ */
+function literalValue(node: any): { value: unknown } | undefined {
+  switch (node?.type) {
+    case 'Literal':
+      return node.regex ? undefined : { value: node.value };
+    case 'StringLiteral':
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return { value: node.value };
+    case 'NullLiteral':
+      return { value: null };
+    case 'TemplateLiteral':
+      return node.expressions.length === 0 ? { value: node.quasis[0].value.cooked } : undefined;
+    case 'UnaryExpression':
+      if (node.operator === '-') {
+        const argument = literalValue(node.argument);
+        return typeof argument?.value === 'number' ? { value: -argument.value } : undefined;
+      }
+      return undefined;
+    case 'ArrayExpression': {
+      const items = node.elements.map(literalValue);
+      return items.every(Boolean) ? { value: items.map((item: { value: unknown }) => item.value) } : undefined;
+    }
+    case 'ObjectExpression': {
+      const value: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (!['Property', 'ObjectProperty'].includes(property.type) || property.computed || property.kind === 'get' || property.kind === 'set') {
+          return undefined;
+        }
+        const key = property.key.type === 'Identifier' ? property.key.name : literalValue(property.key)?.value;
+        const item = literalValue(property.value);
+        if (key === undefined || !item) {
+          return undefined;
+        }
+        value[String(key)] = item.value;
+      }
+      return { value };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isFunction(node: any): boolean {
+  return ['ArrowFunctionExpression', 'FunctionExpression', 'FunctionDeclaration'].includes(node?.type);
+}
+
+function isMember(node: any, object: string | undefined, property?: string): boolean {
+  return node?.type === 'MemberExpression' && !node.computed &&
+    (object === undefined || (node.object.type === 'Identifier' && node.object.name === object)) &&
+    (property === undefined || node.property.name === property);
+}
+
+function toPascalCase(text: string): string {
+  return text.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+/**
+ * Makes a Motoko identifier from a JavaScript name or path parameter
+ */
+function toMotokoIdentifier(name: string): string {
+  let identifier = name.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!/^[A-Za-z_]/.test(identifier)) {
+    identifier = `_${identifier}`;
+  }
+  return MOTOKO_KEYWORDS.has(identifier) || identifier === 'body' ? `${identifier}_` : identifier;
+}
+
+/**
+ * Names the canister method of a route, e.g. `GET /users/:id` becomes `getUsersById`
+ */
+function getMethodName(method: HttpMethod, routePath: string): string {
+  const parts = routePath.split('/').filter(Boolean).map(segment =>
+    segment.startsWith(':') ? `By${toPascalCase(segment.slice(1))}` : toPascalCase(segment)
+  );
+  return `${method.toLowerCase()}${parts.join('') || 'Root'}`;
+}
+
+/**
+ * Escapes text as a Motoko text literal
+ */
+function toMotokoText(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * What a handler can refer to while it is translated
+ */
+interface HandlerScope {
+  collections: Map<string, RouteCollection>;
+  params: string[];
+  /** `req` and `res` for Express; Koa only has `ctx`, kept in `request` */
+  request?: string;
+  response?: string;
+  koa: boolean;
+  /** Variables bound to a lookup in a collection, by JavaScript name */
+  lookups: Map<string, { collection: string; field: string; param: string; variable: string }>;
+}
+
+/**
+ * Reads the route parameter a node refers to, also through `parseInt` and friends
+ */
+function paramOf(node: any, scope: HandlerScope): string | undefined {
+  if (node?.type === 'CallExpression' && node.callee.type === 'Identifier' && PARAM_CONVERSIONS.has(node.callee.name) && node.arguments.length >= 1) {
+    return paramOf(node.arguments[0], scope);
+  }
+  if (node?.type === 'UnaryExpression' && node.operator === '+') {
+    return paramOf(node.argument, scope);
+  }
+  if (node?.type === 'MemberExpression' && isMember(node.object, scope.request, 'params')) {
+    const name = node.computed ? literalValue(node.property)?.value : node.property.name;
+    const param = typeof name === 'string' ? toMotokoIdentifier(name) : undefined;
+    return param && scope.params.includes(param) ? param : undefined;
+  }
+  return undefined;
+}
+
+function isRequestBody(node: any, scope: HandlerScope): boolean {
+  return scope.koa
+    ? isMember(node, undefined, 'body') && isMember(node.object, scope.request, 'request')
+    : isMember(node, scope.request, 'body');
+}
+
+/**
+ * Reads a predicate comparing a field of an item with a route parameter, like `u => u.id === +req.params.id`
+ * @param negated Whether to expect `!==` or `!=` instead
+ */
+function fieldMatch(node: any, scope: HandlerScope, negated: boolean): { field: string; param: string } | undefined {
+  if (!isFunction(node) || node.params.length !== 1 || node.params[0].type !== 'Identifier') {
+    return undefined;
+  }
+  const item = node.params[0].name;
+  let test = node.body;
+  if (test.type === 'BlockStatement') {
+    test = test.body.length === 1 && test.body[0].type === 'ReturnStatement' ? test.body[0].argument : undefined;
+  }
+  const operators = negated ? ['!==', '!='] : ['===', '=='];
+  if (test?.type !== 'BinaryExpression' || !operators.includes(test.operator)) {
+    return undefined;
+  }
+  for (const [left, right] of [[test.left, test.right], [test.right, test.left]]) {
+    const field = left.type === 'CallExpression' && left.callee.type === 'Identifier' && PARAM_CONVERSIONS.has(left.callee.name)
+      ? left.arguments[0]
+      : left;
+    const param = paramOf(right, scope);
+    if (param && isMember(field, item)) {
+      return { field: field.property.name, param };
+    }
+  }
+  return undefined;
+}
+
+function findExpression(collection: string, field: string, param: string): string {
+  return `Array.find<Text>(${collection}, func(item : Text) : Bool { jsonField(item, ${toMotokoText(field)}) == ?${param} })`;
+}
+
+/**
+ * Translates a response body to a Motoko expression of JSON text
+ */
+function translateResponseBody(node: any, scope: HandlerScope): string | undefined {
+  if (!node) {
+    return '""';
+  }
+  const literal = literalValue(node);
+  if (literal) {
+    return toMotokoText(JSON.stringify(literal.value) ?? '');
+  }
+  if (node.type === 'Identifier' && scope.collections.has(node.name)) {
+    const collection = toMotokoIdentifier(node.name);
+    return `"[" # Text.join(",", ${collection}.vals()) # "]"`;
+  }
+  if (node.type === 'Identifier' && scope.lookups.has(node.name)) {
+    return `switch (${scope.lookups.get(node.name)!.variable}) { case (?item) { item }; case null { "null" } }`;
+  }
+  if (isRequestBody(node, scope)) {
+    return 'body';
+  }
+  return undefined;
+}
+
+/**
+ * Reads an Express response, `res.status(404).json(body)` and the like
+ */
+function readExpressResponse(node: any, scope: HandlerScope): { status: number; body?: any } | undefined {
+  if (node?.type !== 'CallExpression' || node.callee.type !== 'MemberExpression' || node.callee.computed) {
+    return undefined;
+  }
+  const method = node.callee.property.name;
+  const target = node.callee.object;
+  let status = 200;
+  if (target.type === 'CallExpression' && isMember(target.callee, scope.response, 'status')) {
+    const code = literalValue(target.arguments[0])?.value;
+    if (typeof code !== 'number') {
+      return undefined;
+    }
+    status = code;
+  } else if (!(target.type === 'Identifier' && target.name === scope.response)) {
+    return undefined;
+  }
+  switch (method) {
+    case 'json':
+    case 'send':
+      return { status, body: node.arguments[0] };
+    case 'end':
+      return { status };
+    case 'sendStatus': {
+      const code = literalValue(node.arguments[0])?.value;
+      return typeof code === 'number' ? { status: code } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the statements of a handler that end it with a response
+ * @returns The status and body; undefined if the statements are not a response
+ */
+function readResponse(statements: any[], scope: HandlerScope): { status: number; body?: any } | undefined {
+  if (!scope.koa) {
+    if (statements.length !== 1) {
+      return undefined;
+    }
+    const statement = statements[0];
+    const expression = statement.type === 'ReturnStatement' ? statement.argument
+      : statement.type === 'ExpressionStatement' ? statement.expression : undefined;
+    return readExpressResponse(expression, scope);
+  }
+
+  // Koa sets `ctx.status` and `ctx.body`, optionally followed by a return
+  let status = 200;
+  let body: any;
+  let hasResponse = false;
+  for (const statement of statements) {
+    if (statement.type === 'ReturnStatement' && !statement.argument) {
+      continue;
+    }
+    const expression = statement.type === 'ExpressionStatement' ? statement.expression : undefined;
+    if (expression?.type !== 'AssignmentExpression' || expression.operator !== '=' || !isMember(expression.left, scope.request)) {
+      return undefined;
+    }
+    if (expression.left.property.name === 'status') {
+      const code = literalValue(expression.right)?.value;
+      if (typeof code !== 'number') {
+        return undefined;
+      }
+      status = code;
+    } else if (expression.left.property.name === 'body') {
+      body = expression.right;
+    } else {
+      return undefined;
+    }
+    hasResponse = true;
+  }
+  return hasResponse ? { status, body } : undefined;
+}
+
+/**
+ * Reads `if (!user)`, `if (user === undefined)` or `if (index === -1)` for a lookup
+ */
+function readMissingCheck(test: any, scope: HandlerScope): string | undefined {
+  if (test?.type === 'UnaryExpression' && test.operator === '!' && test.argument.type === 'Identifier') {
+    return scope.lookups.has(test.argument.name) ? test.argument.name : undefined;
+  }
+  if (test?.type === 'BinaryExpression' && test.left.type === 'Identifier' && scope.lookups.has(test.left.name)) {
+    const value = test.right.type === 'Identifier' && test.right.name === 'undefined' ? undefined : literalValue(test.right)?.value;
+    if (['===', '=='].includes(test.operator) && (value === undefined || value === null || value === -1)) {
+      return test.left.name;
+    }
+    if (test.operator === '<' && value === 0) {
+      return test.left.name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Translates the handlers the rules cover: constant responses, and listing, reading, adding,
+ * replacing and removing the items of a collection by a route parameter
+ * @returns The statements of the Motoko method body and the success status; undefined otherwise
+ */
+function translateHandler(handler: any, scope: HandlerScope): { body: string[]; status: number } | undefined {
+  const statements: any[] = handler.body.type === 'BlockStatement'
+    ? handler.body.body
+    : [{ type: 'ExpressionStatement', expression: handler.body }];
+  const body: string[] = [];
+
+  for (let index = 0; index < statements.length; index++) {
+    const statement = statements[index];
+
+    // The rest of the handler is the response
+    const response = readResponse(statements.slice(index), scope);
+    if (response) {
+      if (response.status >= 400) {
+        return undefined;
+      }
+      const result = translateResponseBody(response.body, scope);
+      return result === undefined ? undefined : { body: [...body, result], status: response.status };
+    }
+
+    if (statement.type === 'VariableDeclaration' && statement.declarations.length === 1) {
+      const declarator = statement.declarations[0];
+      const init = declarator.init;
+      if (declarator.id.type === 'Identifier' && init?.type === 'CallExpression' && init.callee.type === 'MemberExpression' &&
+        init.callee.object.type === 'Identifier' && scope.collections.has(init.callee.object.name) &&
+        ['find', 'findIndex'].includes(init.callee.property.name)) {
+        const match = fieldMatch(init.arguments[0], scope, false);
+        if (!match) {
+          return undefined;
+        }
+        const collection = toMotokoIdentifier(init.callee.object.name);
+        const variable = `found_${toMotokoIdentifier(declarator.id.name)}`;
+        scope.lookups.set(declarator.id.name, { collection, ...match, variable });
+        body.push(`let ${variable} = ${findExpression(collection, match.field, match.param)};`);
+        continue;
+      }
+      return undefined;
+    }
+
+    if (statement.type === 'IfStatement' && !statement.alternate) {
+      const missing = readMissingCheck(statement.test, scope);
+      const consequent = statement.consequent.type === 'BlockStatement' ? statement.consequent.body : [statement.consequent];
+      const error = missing ? readResponse(consequent, scope) : undefined;
+      const errorBody = error ? translateResponseBody(error.body, scope) : undefined;
+      if (!missing || !error || error.status < 400 || errorBody === undefined) {
+        return undefined;
+      }
+      body.push(
+        `switch (${scope.lookups.get(missing)!.variable}) {`,
+        `  case null { throw Error.reject(${toMotokoText(`${error.status}: `)} # ${errorBody}) };`,
+        '  case _ {};',
+        '};'
+      );
+      continue;
+    }
+
+    const expression = statement.type === 'ExpressionStatement' ? statement.expression : undefined;
+    // items.push(req.body)
+    if (expression?.type === 'CallExpression' && isMember(expression.callee, undefined, 'push') &&
+      scope.collections.has(expression.callee.object.name) && expression.arguments.length === 1 && isRequestBody(expression.arguments[0], scope)) {
+      const collection = toMotokoIdentifier(expression.callee.object.name);
+      body.push(`${collection} := Array.append<Text>(${collection}, [body]);`);
+      continue;
+    }
+    // items.splice(index, 1)
+    if (expression?.type === 'CallExpression' && isMember(expression.callee, undefined, 'splice') &&
+      scope.collections.has(expression.callee.object.name) && expression.arguments[0]?.type === 'Identifier' &&
+      scope.lookups.has(expression.arguments[0].name) && literalValue(expression.arguments[1])?.value === 1) {
+      const lookup = scope.lookups.get(expression.arguments[0].name)!;
+      body.push(`${lookup.collection} := Array.filter<Text>(${lookup.collection}, func(item : Text) : Bool { jsonField(item, ${toMotokoText(lookup.field)}) != ?${lookup.param} });`);
+      continue;
+    }
+    if (expression?.type === 'AssignmentExpression' && expression.operator === '=') {
+      // items = items.filter(item => item.id !== req.params.id)
+      const right = expression.right;
+      if (expression.left.type === 'Identifier' && scope.collections.has(expression.left.name) &&
+        right.type === 'CallExpression' && isMember(right.callee, expression.left.name, 'filter')) {
+        const match = fieldMatch(right.arguments[0], scope, true);
+        if (!match) {
+          return undefined;
+        }
+        const collection = toMotokoIdentifier(expression.left.name);
+        body.push(`${collection} := Array.filter<Text>(${collection}, func(item : Text) : Bool { jsonField(item, ${toMotokoText(match.field)}) != ?${match.param} });`);
+        continue;
+      }
+      // items[index] = req.body
+      if (expression.left.type === 'MemberExpression' && expression.left.computed && expression.left.object.type === 'Identifier' &&
+        scope.collections.has(expression.left.object.name) && expression.left.property.type === 'Identifier' &&
+        scope.lookups.has(expression.left.property.name) && isRequestBody(right, scope)) {
+        const lookup = scope.lookups.get(expression.left.property.name)!;
+        body.push(`${lookup.collection} := Array.map<Text, Text>(${lookup.collection}, func(item : Text) : Text { if (jsonField(item, ${toMotokoText(lookup.field)}) == ?${lookup.param}) body else item });`);
+        continue;
+      }
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the Motoko header of a route's canister method
+ */
+export function getRouteMethodHeader(route: ExpressRoute): string {
+  const args = [...route.params.map(param => `${param} : Text`), ...(route.hasBody ? ['body : Text'] : [])];
+  const modifiers = route.kind === 'query' ? 'query ' : route.authenticated ? 'shared ({ caller }) ' : '';
+  return `public ${modifiers}func ${route.methodName}(${args.join(', ')}) : async Text`;
+}
+
+/**
+ * Finds the module-level arrays of JSON literals in a program
+ */
+function findCollections(program: any): RouteCollection[] {
+  const collections: RouteCollection[] = [];
+  for (const statement of program.body) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (declaration?.type !== 'VariableDeclaration') {
+      continue;
+    }
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type === 'Identifier' && declarator.init?.type === 'ArrayExpression') {
+        const items = literalValue(declarator.init);
+        if (items) {
+          collections.push({ name: declarator.id.name, items: (items.value as unknown[]).map(item => JSON.stringify(item)) });
+        }
+      }
+    }
+  }
+  return collections;
+}
+
+/**
+ * Finds a function declared at module level, for handlers passed by name
+ */
+function findNamedFunction(program: any, name: string): any {
+  for (const statement of program.body) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (declaration?.type === 'FunctionDeclaration' && declaration.id?.name === name) {
+      return declaration;
+    }
+    if (declaration?.type === 'VariableDeclaration') {
+      const declarator = declaration.declarations.find((d: any) => d.id.type === 'Identifier' && d.id.name === name && isFunction(d.init));
+      if (declarator) {
+        return declarator.init;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Modules whose routers register Koa handlers, which take a single `ctx` */
+const KOA_ROUTER_MODULES = new Set(['@koa/router', 'koa-router']);
+
+type RouteFramework = 'express' | 'koa';
+
+/**
+ * Reads the module a `require('module')` call loads
+ */
+function requiredModule(node: any): string | undefined {
+  if (node?.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === 'require') {
+    const source = literalValue(node.arguments[0])?.value;
+    return typeof source === 'string' ? source : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the variables routes are registered on: apps made with `express()`, routers made with
+ * `express.Router()` or `Router()`, and Koa routers made with `new Router()`
+ * @returns The framework of each variable, by name
+ */
+function findRouteReceivers(ast: any): Map<string, RouteFramework> {
+  // Local names of `express` and of the router constructors, from imports and requires
+  const expressNames = new Set<string>();
+  const routerNames = new Map<string, RouteFramework>();
+  const addBinding = (source: string, local: string, imported: string) => {
+    if (source === 'express' && imported === 'default') {
+      expressNames.add(local);
+    } else if (source === 'express' && imported === 'Router') {
+      routerNames.set(local, 'express');
+    } else if (KOA_ROUTER_MODULES.has(source) && ['default', 'Router'].includes(imported)) {
+      routerNames.set(local, 'koa');
+    }
+  };
+  recast.visit(ast, {
+    visitImportDeclaration(nodePath: any) {
+      const source = nodePath.node.source.value;
+      for (const specifier of nodePath.node.specifiers ?? []) {
+        addBinding(source, specifier.local.name, specifier.type === 'ImportSpecifier' ? specifier.imported.name : 'default');
+      }
+      return false;
+    },
+    visitVariableDeclarator(nodePath: any) {
+      const { id, init } = nodePath.node;
+      const source = requiredModule(init);
+      if (source && id.type === 'Identifier') {
+        addBinding(source, id.name, 'default');
+      } else if (source && id.type === 'ObjectPattern') {
+        for (const property of id.properties) {
+          if (['Property', 'ObjectProperty'].includes(property.type) && !property.computed && property.value.type === 'Identifier') {
+            addBinding(source, property.value.name, property.key.name);
+          }
+        }
+      }
+      this.traverse(nodePath);
+    }
+  });
+
+  const frameworkOf = (init: any): RouteFramework | undefined => {
+    if (init?.type === 'CallExpression') {
+      const callee = init.callee;
+      // express(), require('express')(), express.Router(), Router()
+      if ((callee.type === 'Identifier' && expressNames.has(callee.name)) || requiredModule(callee) === 'express' ||
+        (isMember(callee, undefined, 'Router') && callee.object.type === 'Identifier' && expressNames.has(callee.object.name))) {
+        return 'express';
+      }
+      return callee.type === 'Identifier' ? routerNames.get(callee.name) : undefined;
+    }
+    if (init?.type === 'NewExpression' && init.callee.type === 'Identifier') {
+      return routerNames.get(init.callee.name);
+    }
+    return undefined;
+  };
+  const receivers = new Map<string, RouteFramework>();
+  recast.visit(ast, {
+    visitVariableDeclarator(nodePath: any) {
+      const framework = frameworkOf(nodePath.node.init);
+      if (framework && nodePath.node.id.type === 'Identifier') {
+        receivers.set(nodePath.node.id.name, framework);
+      }
+      this.traverse(nodePath);
+    }
+  });
+  return receivers;
+}
+
+/**
+ * Finds the status a handler the rules do not translate responds with when it succeeds,
+ * e.g. from `res.status(201).json(user)` or `ctx.status = 201`
+ */
+function findSuccessStatus(handler: any, scope: HandlerScope): number {
+  let status: number | undefined;
+  const accept = (code: unknown) => {
+    if (status === undefined && typeof code === 'number' && code >= 200 && code < 400) {
+      status = code;
+    }
+  };
+  recast.visit(handler.body, {
+    visitCallExpression(nodePath: any) {
+      const node = nodePath.node;
+      if (!scope.koa && (isMember(node.callee, scope.response, 'status') || isMember(node.callee, scope.response, 'sendStatus'))) {
+        accept(literalValue(node.arguments[0])?.value);
+      }
+      this.traverse(nodePath);
+    },
+    visitAssignmentExpression(nodePath: any) {
+      const node = nodePath.node;
+      if (scope.koa && node.operator === '=' && isMember(node.left, scope.request, 'status')) {
+        accept(literalValue(node.right)?.value);
+      }
+      this.traverse(nodePath);
+    }
+  });
+  return status ?? 200;
+}
+
+/**
+ * Finds the `get/post/put/patch/delete` handlers registered on Express apps and routers and
+ * on Koa routers, and translates those the rules cover into canister methods
+ * @param isIncluded Decides which handlers belong to the canister, by file, line and name
+ * @param authenticated Whether routes that change data reject callers not signed in
+ */
+export function convertExpressRoutes(
+  files: RouteSourceFile[],
+  isIncluded: (file: string, handlerLine: number, handlerName?: string) => boolean = () => true,
+  authenticated = false
+): RouteConversion {
+  const routes: ExpressRoute[] = [];
+  const collections = new Map<string, RouteCollection>();
+  const methodNames = new Set<string>();
+
+  for (const file of files) {
+    let ast: any;
+    try {
+      ast = parseJavaScript(file.content);
+    } catch {
+      continue;
+    }
+    const program = ast.program;
+    const receivers = findRouteReceivers(ast);
+    if (receivers.size === 0) {
+      continue;
+    }
+    const fileCollections = findCollections(program);
+    fileCollections.forEach(collection => collections.set(collection.name, collection));
+
+    recast.visit(ast, {
+      visitCallExpression(nodePath: any) {
+        const node = nodePath.node;
+        const callee = node.callee;
+        const framework = callee.type === 'MemberExpression' && !callee.computed && callee.object.type === 'Identifier'
+          ? receivers.get(callee.object.name)
+          : undefined;
+        const method = framework ? HTTP_METHODS[callee.property.name] : undefined;
+        const routePath = literalValue(node.arguments[0])?.value;
+        const last = node.arguments[node.arguments.length - 1];
+        const handlerName = last?.type === 'Identifier' ? last.name : undefined;
+        const handler = handlerName ? findNamedFunction(program, handlerName) : last;
+        if (!method || typeof routePath !== 'string' || !routePath.startsWith('/') || node.arguments.length < 2 || !isFunction(handler)) {
+          this.traverse(nodePath);
+          return;
+        }
+        const handlerLine = handler.loc?.start.line ?? 0;
+        if (!isIncluded(file.path, handlerLine, handlerName)) {
+          return false;
+        }
+
+        let methodName = getMethodName(method, routePath);
+        for (let suffix = 2; methodNames.has(methodName); suffix++) {
+          methodName = `${getMethodName(method, routePath)}${suffix}`;
+        }
+        methodNames.add(methodName);
+
+        const handlerParams: string[] = handler.params.map((param: any) => param.type === 'Identifier' ? param.name : '');
+        const koa = framework === 'koa';
+        const scope: HandlerScope = {
+          collections: new Map(fileCollections.map(collection => [collection.name, collection])),
+          params: (routePath.match(/:\w+/g) ?? []).map(param => toMotokoIdentifier(param.slice(1))),
+          request: handlerParams[0] || undefined,
+          response: koa ? undefined : handlerParams[1] || undefined,
+          koa,
+          lookups: new Map()
+        };
+        const route: ExpressRoute = {
+          method,
+          path: routePath,
+          params: scope.params,
+          methodName,
+          kind: method === 'GET' ? 'query' : 'update',
+          hasBody: ['POST', 'PUT', 'PATCH'].includes(method),
+          status: 200,
+          file: file.path,
+          handlerLine,
+          handlerName,
+          handlerSource: recast.print(handler).code,
+          authenticated: authenticated && method !== 'GET'
+        };
+        const translated = translateHandler(handler, scope);
+        if (translated) {
+          const statements = [...(route.authenticated ? ['requireAuthenticated(caller);'] : []), ...translated.body].map(line => `    ${line}`);
+          route.motoko = `  ${getRouteMethodHeader(route)} {\n${statements.join('\n')}\n  };`;
+          route.status = translated.status;
+        } else {
+          route.status = findSuccessStatus(handler, scope);
+        }
+        routes.push(route);
+        return false;
+      }
+    });
+  }
+
+  return { routes, collections: [...collections.values()] };
+}
+
+/** Reads a top-level field of a JSON object as text, for lookups by a route parameter */
+const JSON_FIELD_HELPER = `  // Reads a top-level field of a JSON object as text, without quotes
+  func jsonField(json : Text, field : Text) : ?Text {
+    let parts = Text.split(json, #text ("\\"" # field # "\\":"));
+    ignore parts.next();
+    switch (parts.next()) {
+      case null { null };
+      case (?rest) {
+        var value = "";
+        var quoted = false;
+        var escaped = false;
+        label scan for (c in Text.trimStart(rest, #char ' ').chars()) {
+          if (escaped) {
+            escaped := false;
+            value := value # Char.toText(c);
+          } else if (quoted and c == '\\\\') {
+            escaped := true;
+          } else if (quoted and c == '\\"') {
+            break scan;
+          } else if (not quoted and c == '\\"' and value == "") {
+            quoted := true;
+          } else if (not quoted and (c == ',' or c == '}')) {
+            break scan;
+          } else {
+            value := value # Char.toText(c);
+          };
+        };
+        ?Text.trimEnd(value, #char ' ')
+      };
+    };
+  };`;
+
+/**
+ * Describes the state and helpers of a route canister, for the model translating the
+ * handlers the rules do not cover
+ */
+export function describeRouteState(conversion: RouteConversion): string {
+  const collections = conversion.collections.map(collection =>
+    `stable var ${toMotokoIdentifier(collection.name)} : [Text]  // the JavaScript array ${collection.name}, one JSON object per item`
+  );
+  return [
+    ...collections,
+    'func jsonField(json : Text, field : Text) : ?Text  // reads a top-level field of a JSON object as text, without quotes',
+    ...(conversion.routes.some(route => route.authenticated) ? [
+      'func requireAuthenticated(caller : Principal)  // traps for callers not signed in with Internet Identity',
+      'func requireOwner(caller : Principal, owner : ?Principal)  // traps unless the caller is the owner or an admin'
+    ] : []),
+    'Imported modules: Array, Char, Error, Text from mo:base'
+  ].join('\n');
+}
+
+/**
+ * Assembles the canister of a route conversion
+ * @param methods The method of every route, in route order
+ * @param declarations Additional state and helper declarations
+ */
+export function renderRouteCanister(canisterName: string, conversion: RouteConversion, methods: string[], declarations: string[] = []): string {
+  const collections = conversion.collections.map(collection =>
+    `  stable var ${toMotokoIdentifier(collection.name)} : [Text] = [${collection.items.map(toMotokoText).join(', ')}];`
+  );
+  const sources = [...new Set(conversion.routes.map(route => route.file))];
+  return [
+    `// Converted from the routes in ${sources.map(source => source.split(/[\\/]/).pop()).join(', ')}`,
+    '// Every method returns the JSON response body; errors are rejected as "<status>: <body>"',
+    'import Array "mo:base/Array";',
+    'import Char "mo:base/Char";',
+    'import Error "mo:base/Error";',
+    'import Text "mo:base/Text";',
+    '',
+    `actor ${canisterName} {`,
+    ...(collections.length > 0 ? ['  // Collections of the Web2 code, one JSON object per item', ...collections, ''] : []),
+    JSON_FIELD_HELPER,
+    ...declarations.map(declaration => `\n${declaration}`),
+    ...methods.map(method => `\n${method}`),
+    '};',
+    ''
+  ].join('\n');
+}
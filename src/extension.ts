@@ -2,22 +2,107 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { analyzeCode } from './analyzer';
-import { generateCanisterAndModifyCode } from './generator';
-import { deployCanister } from './deployer';
-import { promptForFileSelection, promptForFunctionalityFocus, SelectedFile } from './provider';
+import { generateCanisterCode, generateRouteCanister, modifyClientCode } from './generator';
+import { convertExpressRoutes, ExpressRoute, RouteConversion } from './express-routes';
+import { getRouteModulePath, RouteModule, rewriteRouteCalls, writeRouteModule } from './route-client';
+import { DataModel, describeModelStorage, findDataModels, readPrismaSchema, renderModelStorage, usesDataModel } from './db-models';
+import { getModelModulePath, ModelModule, rewriteModelCalls, writeModelModule } from './model-client';
+import {
+  AUTH_CANISTER_NOTE,
+  describeAuthentication,
+  getAuthModuleFiles,
+  getAuthModulePath,
+  hasLoginCode,
+  INTERNET_IDENTITY_CANISTER,
+  renderAccessControl,
+  writeAuthModule
+} from './auth';
+import {
+  describeBrowserStorage,
+  getStorageModulePath,
+  renderStorageCanister,
+  rewriteBrowserStorage,
+  STORAGE_CANISTER_NOTE,
+  StorageModule,
+  writeStorageModule
+} from './browser-storage';
+import { describeMergeConflicts, mergeCanisterCode, MergeConflict } from './motoko-merge';
+import { registerMotokoDiagnostics } from './motoko-diagnostics';
+import { ProposedChange, registerReviewProvider, reviewChanges } from './review';
+import {
+  deployCanisters,
+  getBuiltModulePath,
+  getExistingCanisterId,
+  getIcProjectDir,
+  installCanisterModule,
+  uninstallCanisterCode
+} from './deployer';
+import {
+  CanisterBindings,
+  ClientCanisterTarget,
+  findMissingMethods,
+  generateCanisterBindings,
+  getClientBindings,
+  getDeclarationsOutput,
+  toModuleSpecifier
+} from './candid';
+import {
+  AnalyzedFile,
+  CanisterPlan,
+  createSingleCanisterPlan,
+  describeCanisterFocus,
+  editCanisterPlan,
+  getCanisterSourceFiles,
+  PlannedCanister,
+  proposeCanisterPlan,
+  readCanisterPlan
+} from './canister-plan';
+import {
+  createSession,
+  findLastSession,
+  getSessionCanister,
+  recordDeployedModule,
+  recordGenerated,
+  recordGeneratedDirectory,
+  recordOriginal,
+  recordOriginalDirectory,
+  getSessionNetwork,
+  saveSession,
+  SessionFile
+} from './session';
+import { promptForFileSelection, promptForFunctionalityFocus, promptForNetwork, SelectedFile } from './provider';
+import { getClientSettings, getDeploySettings } from './config';
+import { listNetworks, NetworkTarget, resolveNetwork } from './network';
+import { getClientConfigFiles, getClientConfigPath, writeClientConfig } from './client-config';
 import { checkDfxStatus, DfxStatus, showDfxFixInstructions } from './dfx-setup';
 import { installDfxSdk, verifyDfxInstallation } from './dfx-installer';
-
-// Global canister name to use for all conversions in a session
-const CANISTER_NAME = "MainCanister";
+import { describeToolchain, resolveMotokoToolchain } from './toolchain';
+import { refreshReplicaStatus, registerReplicaCommands } from './replica-status';
+import { initLogger, log, logError, showErrorWithLogs, showLogs, startPhase } from './logger';
 
 export function activate(context: vscode.ExtensionContext) {
-  console.log('ICP Web2 to Web3 extension is now active!');
+  initLogger(context);
+  log('ICP Web2 to Web3 extension is now active!');
+
+  registerReviewProvider(context);
+  registerMotokoDiagnostics(context);
+  registerReplicaCommands(context);
 
   // Add a command to check and fix DFX environment
   const checkDfxCmd = vscode.commands.registerCommand('icpilot-web2-to-web3.checkDfx', async () => {
     vscode.window.showInformationMessage('Checking DFX installation...');
     const status = await checkDfxStatus();
+
+    // Versions that do not match are worth reporting even when the check passes
+    if (status !== DfxStatus.NotInstalled) {
+      const toolchain = await resolveMotokoToolchain();
+      if (toolchain.mismatches.length > 0) {
+        vscode.window.showWarningMessage(`Motoko toolchain: ${describeToolchain(toolchain)}. ${toolchain.mismatches.join(' ')}`);
+      } else if (status === DfxStatus.FullyInstalled) {
+        vscode.window.showInformationMessage(`DFX is properly installed with all required packages: ${describeToolchain(toolchain)}.`);
+        return;
+      }
+    }
     
     switch (status) {
       case DfxStatus.FullyInstalled:
@@ -41,6 +126,10 @@ export function activate(context: vscode.ExtensionContext) {
   
   context.subscriptions.push(checkDfxCmd);
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('icpilot-web2-to-web3.showLogs', () => showLogs())
+  );
+
   // Existing convert command
   let disposable = vscode.commands.registerCommand('icpilot-web2-to-web3.convert', async () => {
     // Check DFX status first
@@ -97,7 +186,7 @@ export function activate(context: vscode.ExtensionContext) {
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          vscode.window.showErrorMessage(`Failed to install DFX: ${errorMessage}`);
+          showErrorWithLogs(`Failed to install DFX: ${errorMessage}`);
           return;
         }
       } else if (selection === 'Open Installation Guide') {
@@ -116,6 +205,24 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
+    let network: NetworkTarget;
+    try {
+      network = resolveNetwork(getDeploySettings());
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    if (!network.local) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Deploy the converted canisters to "${network.name}" (${network.host})?`,
+        { modal: true, detail: 'Creating and upgrading canisters on this network may use cycles.' },
+        'Deploy'
+      );
+      if (confirm !== 'Deploy') {
+        return;
+      }
+    }
+
     const useFileSelection = await vscode.window.showQuickPick(['Use current file', 'Select files'], {
       placeHolder: 'Choose file source for conversion'
     });
@@ -153,117 +260,426 @@ export function activate(context: vscode.ExtensionContext) {
       },
       async (progress) => {
         try {
+          startPhase(`Convert ${selectedFiles.map(file => file.filename).join(', ')} for ${network.name}`);
           progress.report({ increment: 10, message: 'Analyzing all files...' });
-          const validFiles: SelectedFile[] = [];
-          let combinedCode = '';
+          const projectPath = workspaceFolder.uri.fsPath;
+          const authenticated = getClientSettings().authentication === 'internetIdentity';
+          // Database models are stored by the canister whose code defines or uses them. Files that
+          // only define models have no functions, so every selected file is searched.
+          const prismaSchema = await readPrismaSchema(projectPath);
+          const dataModels = findDataModels(prismaSchema ? [...selectedFiles, prismaSchema] : selectedFiles);
+
+          const analyzedFiles: AnalyzedFile[] = [];
           for (const file of selectedFiles) {
-            const web2Code = file.content;
-            const analysis = analyzeCode(web2Code);
-            if (!analysis.hasFunctions) {
+            const analysis = analyzeCode(file.content, file.path);
+            // Files without functions are still converted when their browser storage or model accesses are rewritten
+            const usesModels = dataModels.some(model => model.file === file.path || usesDataModel(file.content, model));
+            const convertsStorage = authenticated && analysis.storageAccesses.length > 0;
+            if (!analysis.hasFunctions && !convertsStorage && !usesModels) {
               vscode.window.showInformationMessage(`No functions found in ${file.filename}. Skipping.`);
               continue;
             }
-            validFiles.push(file);
-            combinedCode += `// From file: ${file.filename}\n${web2Code}\n\n`;
+            log(`Found ${analysis.callables.length} callable(s) in ${file.filename}: ${analysis.functionNames.join(', ')}`);
+            if (analysis.storageAccesses.length > 0) {
+              log(`Found ${analysis.storageAccesses.length} browser storage access(es) in ${file.filename}: ${[...new Set(analysis.storageAccesses.map(access => access.api))].join(', ')}`);
+            }
+            analyzedFiles.push({ ...file, callables: analysis.callables, storageAccesses: analysis.storageAccesses });
           }
 
-          if (validFiles.length === 0) {
-            vscode.window.showErrorMessage('No functions found in any of the selected files.');
+          if (analyzedFiles.length === 0) {
+            vscode.window.showErrorMessage('No functions, data models or browser storage found in any of the selected files.');
             return;
           }
 
-          progress.report({ increment: 30, message: 'Generating consolidated canister...' });
-          const fixedCanisterName = CANISTER_NAME;
-          const existingCanisterContent = await getExistingCanisterContent(workspaceFolder.uri.fsPath, fixedCanisterName);
-
-          // Log if we're updating or creating a new canister
-          if (existingCanisterContent) {
-            console.log(`Found existing canister code (${existingCanisterContent.length} bytes). Updating...`);
-            progress.report({ message: 'Updating existing canister...' });
+          // The split into canisters is proposed by the model and confirmed by the user. Without
+          // functions there is nothing to split; one canister keeps the models and storage.
+          progress.report({ increment: 10, message: 'Proposing canister split...' });
+          const existingPlan = readCanisterPlan(projectPath);
+          let proposedPlan: CanisterPlan;
+          if (!analyzedFiles.some(file => file.callables.length > 0)) {
+            log('No functions to split; a single canister keeps the data models and browser storage');
+            proposedPlan = createSingleCanisterPlan(analyzedFiles, projectPath);
           } else {
-            console.log('No existing canister found. Creating new one...');
-            progress.report({ message: 'Creating new canister...' });
+            try {
+              proposedPlan = await proposeCanisterPlan(analyzedFiles, projectPath, functionalityFocus, existingPlan);
+            } catch (planError) {
+              logError('Could not propose a canister split, using a single canister:', planError);
+              proposedPlan = createSingleCanisterPlan(analyzedFiles, projectPath);
+            }
+          }
+          progress.report({ message: 'Waiting for the canister plan...' });
+          const plan = await editCanisterPlan(proposedPlan, analyzedFiles, projectPath, existingPlan);
+          if (!plan) {
+            vscode.window.showInformationMessage('Conversion cancelled.');
+            return;
           }
 
-          // Pass existingCanisterContent to be merged, not replaced
-          const { canisterCode, modifiedWeb2Code, canisterName } = await generateCanisterAndModifyCode(
-            combinedCode,
-            functionalityFocus,
-            true,
-            existingCanisterContent ? fixedCanisterName : undefined,
-            undefined, // No canisterId yet
-            existingCanisterContent // Pass existing canister code
-          );
+          progress.report({ increment: 20, message: 'Generating canisters...' });
+          startPhase(`Generate canisters ${plan.canisters.map(planned => planned.name).join(', ')}`);
+          const canisterChanges: ProposedChange[] = [];
+          const existingCanisters = new Set<string>();
+          const conflictDetails: string[] = [];
+          const routeConversions = new Map<string, RouteConversion>();
 
-          const srcDir = path.join(workspaceFolder.uri.fsPath, 'src');
-          await fs.promises.mkdir(srcDir, { recursive: true });
-          const canisterUri = vscode.Uri.joinPath(workspaceFolder.uri, 'src', `${fixedCanisterName}.mo`);
-          await vscode.workspace.fs.writeFile(canisterUri, new TextEncoder().encode(canisterCode));
+          // Database models are stored by the canister whose code defines or uses them
+          const canisterModels = new Map<string, DataModel[]>();
+          for (const model of dataModels) {
+            const owner = plan.canisters.find(planned => planned.files.includes(path.relative(projectPath, model.file)) ||
+              getCanisterSourceFiles(planned, analyzedFiles, projectPath).some(file => file.path === model.file || usesDataModel(file.content, model))
+            ) ?? plan.canisters[0];
+            canisterModels.set(owner.name, [...(canisterModels.get(owner.name) ?? []), model]);
+            log(`Found ${model.source} model ${model.name} in ${path.basename(model.file)}; stored by ${owner.name}`);
+          }
+
+          // Browser storage moves into the canister of the first file that uses it. Only signed-in
+          // users get their own entries, so without authentication browser storage stays as it is.
+          const storageFiles = analyzedFiles.filter(file => file.storageAccesses.length > 0);
+          if (storageFiles.length > 0 && !authenticated) {
+            log(`Leaving the browser storage of ${storageFiles.map(file => file.filename).join(', ')} unchanged: converting it needs Internet Identity authentication`);
+            vscode.window.showWarningMessage('Browser storage was not converted: canister storage is per user and needs icpilot.client.authentication set to internetIdentity.');
+          }
+          const storageOwner = storageFiles.length === 0 || !authenticated ? undefined : (plan.canisters.find(planned =>
+            storageFiles.some(file => planned.files.includes(path.relative(projectPath, file.path)))
+          ) ?? plan.canisters[0]).name;
+          if (storageOwner) {
+            log(`Browser storage of ${storageFiles.map(file => file.filename).join(', ')} is kept by ${storageOwner}`);
+          }
 
-          progress.report({ increment: 50, message: 'Deploying canister...' });
-          const canisterId = await deployCanister(fixedCanisterName, workspaceFolder.uri.fsPath);
-          console.log(`Deployed canister with ID: ${canisterId}`);
+          // Route handlers are planned by name, or by where they are defined when they are inline
+          const getRouteFunctionId = (route: ExpressRoute) => route.handlerName ?? `${path.relative(projectPath, route.file)}:${route.handlerLine}`;
 
-          progress.report({ increment: 70, message: 'Updating client code...' });
-          let processedCount = 0;
-          const totalFiles = validFiles.length;
-          for (const file of validFiles) {
-            // Pass the canister ID to the generator function
-            console.log(`Generating code for ${file.filename} with canister ID: ${canisterId}`);
-            const singleFileResult = await generateCanisterAndModifyCode(
-              file.content,
-              functionalityFocus,
-              false,
-              fixedCanisterName,
-              canisterId
+          for (const planned of plan.canisters) {
+            const models = canisterModels.get(planned.name) ?? [];
+            const sourceFiles = getCanisterSourceFiles(planned, analyzedFiles, projectPath);
+            if (sourceFiles.length === 0 && models.length === 0 && planned.name !== storageOwner) {
+              log(`${planned.name} has no functions, data models or browser storage to convert. Skipping.`);
+              continue;
+            }
+            const existingCanisterContent = await getExistingCanisterContent(projectPath, planned.name);
+
+            // Log if we're updating or creating a new canister
+            if (existingCanisterContent) {
+              existingCanisters.add(planned.name);
+              log(`Found existing canister code for ${planned.name} (${existingCanisterContent.length} bytes). Updating...`);
+              progress.report({ message: `Updating existing canister ${planned.name}...` });
+            } else {
+              log(`No existing canister ${planned.name} found. Creating new one...`);
+              progress.report({ message: `Creating new canister ${planned.name}...` });
+            }
+
+            // What the canister keeps besides its functions, for every prompt that writes part of it
+            const canisterNotes = [
+              ...(models.length > 0 ? [describeModelStorage(models, authenticated)] : []),
+              ...(planned.name === storageOwner ? [STORAGE_CANISTER_NOTE] : []),
+              ...(authenticated ? [AUTH_CANISTER_NOTE] : [])
+            ];
+
+            // Express and Koa routes are converted by rules; the model only sees the handlers they miss
+            const routeConversion = convertExpressRoutes(sourceFiles, (file, handlerLine, handlerName) =>
+              planned.functions.includes(handlerName ?? `${path.relative(projectPath, file)}:${handlerLine}`),
+              authenticated
             );
-            
-            // Check for duplicate canister ID declarations
-            const canisterIdMatches = (singleFileResult.modifiedWeb2Code.match(/const\s+canisterId\s*=|let\s+canisterId\s*=|var\s+canisterId\s*=/g) || []).length;
-            if (canisterIdMatches > 1) {
-              console.warn(`Found ${canisterIdMatches} canister ID declarations in generated code. Fixing...`);
-              // Remove all but the first canister ID declaration
-              const firstDeclaration = singleFileResult.modifiedWeb2Code.match(/(const|let|var)\s+canisterId\s*=\s*["'][^"']*["'];/);
-              if (firstDeclaration) {
-                const restOfCode = singleFileResult.modifiedWeb2Code.replace(/(const|let|var)\s+canisterId\s*=\s*["'][^"']*["'];/g, '');
-                singleFileResult.modifiedWeb2Code = `${firstDeclaration[0]}\n\n${restOfCode}`;
+            let generated: { canisterCode: string; mergeConflicts: MergeConflict[] } | undefined;
+            let modelFunctions = planned.functions;
+            if (sourceFiles.length === 0) {
+              // Only the data models and browser storage below go into the canister
+              log(`${planned.name} implements no functions; it keeps data models and browser storage only`);
+              generated = { canisterCode: existingCanisterContent ?? `actor ${planned.name} {\n};\n`, mergeConflicts: [] };
+            } else if (routeConversion.routes.length > 0) {
+              const untranslated = routeConversion.routes.filter(route => !route.motoko).length;
+              log(`Converting ${routeConversion.routes.length} route(s) of ${planned.name} by rules; ${untranslated} handler(s) need the model`);
+              routeConversions.set(planned.name, routeConversion);
+              generated = await generateRouteCanister(planned.name, routeConversion, existingCanisterContent, canisterNotes.join('\n\n'));
+              const routeFunctions = new Set(routeConversion.routes.map(getRouteFunctionId));
+              modelFunctions = planned.functions.filter(fn => !routeFunctions.has(fn));
+            }
+            // The other functions are written by the model, merged into the route actor if there is one
+            if (!generated || modelFunctions.length > 0) {
+              const modelCanister = { ...planned, functions: modelFunctions };
+              const modelCode = getCanisterSourceFiles(modelCanister, analyzedFiles, projectPath)
+                .map(file => `// From file: ${file.filename}\n${file.content}\n\n`)
+                .join('');
+              const rest = await generateCanisterCode(
+                modelCode,
+                [describeCanisterFocus(modelCanister, functionalityFocus), ...canisterNotes].join('\n\n'),
+                false,
+                planned.name,
+                generated?.canisterCode ?? existingCanisterContent
+              );
+              generated = { canisterCode: rest.canisterCode, mergeConflicts: [...(generated?.mergeConflicts ?? []), ...rest.mergeConflicts] };
+            }
+            let { canisterCode, mergeConflicts } = generated;
+            // With Internet Identity, every canister gets the access-control helpers its methods call
+            const storageDeclarations = [
+              ...(authenticated ? [renderAccessControl(planned.name)] : []),
+              ...(models.length > 0 ? [renderModelStorage(planned.name, models, authenticated)] : []),
+              ...(planned.name === storageOwner ? [renderStorageCanister(planned.name)] : [])
+            ];
+            for (const declarations of storageDeclarations) {
+              const withStorage = mergeCanisterCode(canisterCode, declarations);
+              canisterCode = withStorage.code;
+              mergeConflicts = [...mergeConflicts, ...withStorage.conflicts];
+            }
+            if (mergeConflicts.length > 0) {
+              conflictDetails.push(`${planned.name}:\n${describeMergeConflicts(mergeConflicts)}`);
+            }
+            canisterChanges.push({
+              path: getCanisterPath(projectPath, planned.name),
+              original: existingCanisterContent ?? '',
+              proposed: canisterCode
+            });
+          }
+
+          // Declarations that changed shape are never overwritten silently
+          if (conflictDetails.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+              'The generated canisters change existing declarations. The existing versions were kept.',
+              { modal: true, detail: conflictDetails.join('\n\n') },
+              'Continue with Existing Versions'
+            );
+            if (choice !== 'Continue with Existing Versions') {
+              vscode.window.showInformationMessage('Conversion cancelled because of canister merge conflicts.');
+              return;
+            }
+          }
+
+          // Nothing is written or deployed until the canisters have been reviewed
+          progress.report({ message: 'Waiting for canister review...' });
+          const canisterReview = await reviewChanges(canisterChanges);
+          if (!canisterReview) {
+            vscode.window.showInformationMessage('Conversion cancelled during review.');
+            return;
+          }
+          const canisterNames = plan.canisters
+            .map(planned => planned.name)
+            .filter(name => canisterReview.has(getCanisterPath(projectPath, name)) || existingCanisters.has(name));
+          if (canisterNames.length === 0) {
+            vscode.window.showInformationMessage('Canister changes rejected. Nothing to deploy.');
+            return;
+          }
+
+          // Everything written from here on is recorded so the conversion can be undone
+          const icProjectDir = getIcProjectDir(projectPath);
+          const dfxConfigPath = path.join(icProjectDir, 'dfx.json');
+          const getDeployedSourcePath = (name: string) => path.join(icProjectDir, 'src', name, 'main.mo');
+          const session = createSession(network.name);
+          recordOriginal(session, dfxConfigPath);
+          for (const name of canisterNames) {
+            recordOriginal(session, getCanisterPath(projectPath, name));
+            recordOriginal(session, getDeployedSourcePath(name));
+            getSessionCanister(session, name).created = !(await getExistingCanisterId(icProjectDir, name, network.name));
+          }
+
+          await fs.promises.mkdir(path.join(projectPath, 'src'), { recursive: true });
+          for (const [canisterPath, reviewedCanisterCode] of canisterReview) {
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(canisterPath), new TextEncoder().encode(reviewedCanisterCode));
+            recordGenerated(session, canisterPath, reviewedCanisterCode);
+          }
+          await saveSession(projectPath, session);
+
+          progress.report({ increment: 50, message: 'Deploying canisters...' });
+          const deployment = await deployCanisters(canisterNames, projectPath, network, authenticated);
+          const { canisterIds, fallbacks } = deployment;
+          recordGenerated(session, dfxConfigPath, await fs.promises.readFile(dfxConfigPath, 'utf8'));
+          for (const [name, canisterId] of canisterIds) {
+            log(`Deployed canister ${name} with ID: ${canisterId}`);
+            getSessionCanister(session, name).id = canisterId;
+            // A repair during deployment is written to the workspace source as well
+            recordGenerated(session, getCanisterPath(projectPath, name), await fs.promises.readFile(getCanisterPath(projectPath, name), 'utf8'));
+            recordGenerated(session, getDeployedSourcePath(name), await fs.promises.readFile(getDeployedSourcePath(name), 'utf8'));
+            await recordDeployedModule(projectPath, session, name, getBuiltModulePath(projectPath, name, network.name));
+          }
+          await saveSession(projectPath, session);
+
+          progress.report({ message: 'Generating Candid bindings...' });
+          const bindings = new Map<string, CanisterBindings>();
+          const routeModules: RouteModule[] = [];
+          const modelModules: ModelModule[] = [];
+          let storageModule: StorageModule | undefined;
+          for (const name of canisterNames) {
+            const declarationsDir = path.resolve(icProjectDir, getDeclarationsOutput(name));
+            recordOriginalDirectory(session, declarationsDir);
+            bindings.set(name, await generateCanisterBindings(icProjectDir, name, network.name));
+            const routeConversion = routeConversions.get(name);
+            if (routeConversion) {
+              const routeModule = { canisterName: name, routes: routeConversion.routes, modulePath: getRouteModulePath(declarationsDir, name) };
+              await writeRouteModule(routeModule, getClientConfigPath(projectPath));
+              routeModules.push(routeModule);
+            }
+            const models = canisterModels.get(name);
+            if (models) {
+              const modelModule = { canisterName: name, models, modulePath: getModelModulePath(declarationsDir, name) };
+              await writeModelModule(modelModule, getClientConfigPath(projectPath));
+              modelModules.push(modelModule);
+            }
+            if (name === storageOwner) {
+              storageModule = {
+                canisterName: name,
+                modulePath: getStorageModulePath(declarationsDir, name),
+                migrateLocalData: getClientSettings().migrateBrowserStorage
+              };
+              await writeStorageModule(storageModule, getClientConfigPath(projectPath));
+            }
+            recordGeneratedDirectory(session, declarationsDir);
+          }
+
+          // Clients read canister IDs and the host from a generated module rather than literals
+          const clientConfigFiles = [...getClientConfigFiles(projectPath), ...(authenticated ? getAuthModuleFiles(projectPath) : [])];
+          clientConfigFiles.forEach(file => recordOriginal(session, file));
+          const clientCanisterIds = new Map(canisterIds);
+          if (deployment.internetIdentityId) {
+            log(`Deployed Internet Identity with ID: ${deployment.internetIdentityId}`);
+            clientCanisterIds.set(INTERNET_IDENTITY_CANISTER, deployment.internetIdentityId);
+          }
+          await writeClientConfig(projectPath, deployment.network, clientCanisterIds, getDeploySettings().network);
+          if (authenticated) {
+            await writeAuthModule(projectPath);
+          }
+          for (const file of clientConfigFiles) {
+            recordGenerated(session, file, await fs.promises.readFile(file, 'utf8'));
+          }
+
+          // Fallback code only deploys when explicitly allowed; say what it cost
+          const degradedNotes: string[] = [];
+          for (const [name, fallback] of fallbacks) {
+            const source = await fs.promises.readFile(getCanisterPath(projectPath, name), 'utf8');
+            const missingFunctions = findMissingMethods(source, bindings.get(name)!.candid);
+            Object.assign(getSessionCanister(session, name), { fallback, missingFunctions });
+            const kind = fallback === 'minimal' ? 'a placeholder canister' : 'a simplified canister';
+            degradedNotes.push(
+              `"${name}" was deployed as ${kind}` +
+              (missingFunctions.length > 0 ? `; missing functions: ${missingFunctions.join(', ')}` : '')
+            );
+          }
+          await saveSession(projectPath, session);
+
+          progress.report({ increment: 70, message: 'Updating client code...' });
+          startPhase('Update client code');
+          const proposedChanges: ProposedChange[] = [];
+          const totalFiles = analyzedFiles.length;
+          for (const file of analyzedFiles) {
+            // Each file is wired to every deployed canister the plan assigns it to
+            // Model accesses and calls to converted routes are rewritten by rules, whatever canister the file is assigned to
+            let rewrittenContent = rewriteRouteCalls(rewriteModelCalls(file.content, file.path, modelModules), file.path, routeModules);
+            let remainingStorage = 0;
+            if (storageModule && file.storageAccesses.length > 0) {
+              const rewrittenStorage = rewriteBrowserStorage(rewrittenContent, file.path, storageModule);
+              rewrittenContent = rewrittenStorage.code;
+              remainingStorage = rewrittenStorage.remaining;
+            }
+            const relativePath = path.relative(projectPath, file.path);
+            const toTarget = (name: string): ClientCanisterTarget => ({
+              canisterName: name,
+              canisterId: canisterIds.get(name)!,
+              bindings: getClientBindings(bindings.get(name)!, file.path, getClientConfigPath(projectPath))
+            });
+            // Calls to converted routes were rewritten above, so only canisters with other functions are
+            // left for the model to wire; canisters that only keep data are reached through the rules
+            const hasCanisterMethods = (planned: PlannedCanister) => {
+              const routeFunctions = new Set(routeConversions.get(planned.name)?.routes.map(getRouteFunctionId) ?? []);
+              return planned.functions.some(fn => !routeFunctions.has(fn));
+            };
+            const targets: ClientCanisterTarget[] = plan.canisters
+              .filter(planned => planned.files.includes(relativePath) && canisterIds.has(planned.name) && hasCanisterMethods(planned))
+              .map(planned => toTarget(planned.name));
+            // Storage the rules could not port, such as reads outside async functions or IndexedDB, is left to the model
+            let clientFocus = functionalityFocus;
+            if (storageModule && remainingStorage > 0) {
+              log(`${remainingStorage} browser storage access(es) in ${file.filename} are left to the model`);
+              if (!targets.some(target => target.canisterName === storageModule!.canisterName)) {
+                targets.push(toTarget(storageModule.canisterName));
+              }
+              clientFocus = [functionalityFocus, describeBrowserStorage(toModuleSpecifier(file.path, storageModule.modulePath))]
+                .filter(Boolean)
+                .join('\n\n');
+            }
+            // Sign-in and session code is ported to Internet Identity by the model, next to the file's canister calls
+            if (authenticated && hasLoginCode(rewrittenContent)) {
+              log(`Porting the sign-in and session code of ${file.filename} to Internet Identity`);
+              if (targets.length === 0) {
+                const owner = plan.canisters.find(planned => planned.files.includes(relativePath) && canisterIds.has(planned.name));
+                targets.push(toTarget(owner?.name ?? [...canisterIds.keys()][0]));
+              }
+              clientFocus = [clientFocus, describeAuthentication(toModuleSpecifier(file.path, getAuthModulePath(projectPath)))]
+                .filter(Boolean)
+                .join('\n\n');
+            }
+            if (targets.length === 0) {
+              if (rewrittenContent !== file.content) {
+                log(`Pointed the model accesses, route calls and browser storage of ${file.filename} at the converted canisters`);
+                proposedChanges.push({ path: file.path, original: file.content, proposed: rewrittenContent });
+              } else {
+                log(`No deployed canister is assigned to ${file.filename}. Leaving it unchanged.`);
               }
+              continue;
             }
-            
-            // Check if the canister ID is in the modified code
-            const canisterIdIncluded = singleFileResult.modifiedWeb2Code.includes(canisterId);
-            console.log(`Canister ID ${canisterId} included in modified code: ${canisterIdIncluded}`);
-            
-            let document = await findOrOpenDocument(file.path);
+
+            log(`Generating code for ${file.filename} with canister(s): ${targets.map(t => `${t.canisterName} (${t.canisterId})`).join(', ')}`);
+            const modifiedWeb2Code = await modifyClientCode(rewrittenContent, targets, clientFocus);
+
+            // Check that the canister IDs are read from the client config
+            const canisterIdsConfigured = targets.every(target => modifiedWeb2Code.includes(`getCanisterId("${target.canisterName}")`));
+            log(`Canister IDs read from the client config: ${canisterIdsConfigured}`);
+
+            proposedChanges.push({ path: file.path, original: file.content, proposed: modifiedWeb2Code });
+            progress.report({
+              increment: (10 / totalFiles),
+              message: `${proposedChanges.length}/${totalFiles} files generated`
+            });
+          }
+
+          const deployedSummary = [...canisterIds].map(([name, id]) => `"${name}" (${id})`).join(', ');
+
+          // Client files are only rewritten once their diffs have been confirmed
+          progress.report({ message: 'Waiting for client code review...' });
+          const acceptedFiles = await reviewChanges(proposedChanges);
+          if (!acceptedFiles) {
+            vscode.window.showInformationMessage(
+              `Deployed ${deployedSummary}, but the client code review was cancelled. No client files were changed.` +
+              (degradedNotes.length > 0 ? ` Degraded: ${degradedNotes.join('. ')}.` : '')
+            );
+            return;
+          }
+
+          let processedCount = 0;
+          for (const [filePath, content] of acceptedFiles) {
+            const document = await findOrOpenDocument(filePath);
             if (document) {
+              recordOriginal(session, filePath, document.getText());
               const edit = new vscode.WorkspaceEdit();
               edit.replace(
                 document.uri,
                 new vscode.Range(0, 0, document.lineCount, 0),
-                singleFileResult.modifiedWeb2Code
+                content
               );
               await vscode.workspace.applyEdit(edit);
-              
-              // Double-check the updated content
-              document = await vscode.workspace.openTextDocument(document.uri);
-              const updatedContent = document.getText();
-              const canisterIdVerified = updatedContent.includes(canisterId);
-              console.log(`Verified canister ID in updated document: ${canisterIdVerified}`);
+              recordGenerated(session, filePath, content);
             }
             processedCount++;
             progress.report({
-              increment: (20 / totalFiles),
-              message: `${processedCount}/${totalFiles} files updated with canister ID: ${canisterId}`
+              increment: (10 / acceptedFiles.size),
+              message: `${processedCount}/${acceptedFiles.size} files updated`
             });
           }
 
+          session.completedAt = new Date().toISOString();
+          await saveSession(projectPath, session);
+
+          if (degradedNotes.length > 0) {
+            progress.report({ increment: 100, message: 'Conversion finished in degraded mode' });
+            vscode.window.showWarningMessage(
+              `Conversion DEGRADED: ${degradedNotes.join('. ')}. Deployed ${deployedSummary}; ${processedCount} of ${totalFiles} file(s) updated.`
+            );
+            return;
+          }
+
           progress.report({ increment: 100, message: 'Conversion complete!' });
           vscode.window.showInformationMessage(
-            `Created single canister "${fixedCanisterName}" (${canisterId}) with all functions. ${processedCount} file(s) updated.`
+            `Deployed ${canisterIds.size} canister(s) to ${network.name}: ${deployedSummary}. ${processedCount} of ${totalFiles} file(s) updated.`
           );
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          vscode.window.showErrorMessage(`Error: ${errorMessage}`);
+          showErrorWithLogs(`Error: ${errorMessage}`);
           if (errorMessage.includes('DFX installation failed')) {
             vscode.window.showErrorMessage(
               'DFX installation failed. Please install manually following the official guide.',
@@ -277,25 +693,159 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
     );
+    await refreshReplicaStatus();
   });
 
   context.subscriptions.push(disposable);
+
+  const undoCmd = vscode.commands.registerCommand('icpilot-web2-to-web3.undoConversion', async () => {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage('No workspace folder open!');
+      return;
+    }
+    const projectPath = workspaceFolder.uri.fsPath;
+
+    const last = await findLastSession(projectPath);
+    if (!last) {
+      vscode.window.showInformationMessage('There is no conversion to undo.');
+      return;
+    }
+    const { session, previousModules } = last;
+    const network = getSessionNetwork(session);
+
+    const changedFiles = session.files.filter(file => file.generated !== undefined);
+    const deployed = session.canisters.filter(canister => canister.wasmPath);
+    const canisterActions = deployed.map(canister => {
+      if (previousModules.has(canister.name)) {
+        return `Canister "${canister.name}" will be upgraded back to its previous module.`;
+      }
+      if (canister.created) {
+        return `Canister "${canister.name}" was created by this conversion; its code will be uninstalled.`;
+      }
+      return `No earlier module of "${canister.name}" was recorded, so the canister keeps its current code.`;
+    });
+    if (canisterActions.length === 0) {
+      canisterActions.push('No canister is changed.');
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `Undo the conversion from ${new Date(session.startedAt).toLocaleString()} on ${network}?`,
+      {
+        modal: true,
+        detail: [
+          `${changedFiles.length} file(s) will be restored:`,
+          ...changedFiles.map(file => `  ${vscode.workspace.asRelativePath(file.path)}`),
+          '',
+          ...canisterActions
+        ].join('\n')
+      },
+      'Undo Conversion'
+    );
+    if (choice !== 'Undo Conversion') {
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Undoing last conversion...',
+        cancellable: false
+      },
+      async (progress) => {
+        try {
+          // Canisters go first: restoring the files may remove the dfx.json dfx needs
+          for (const canister of deployed) {
+            const previousModule = previousModules.get(canister.name);
+            if (previousModule) {
+              progress.report({ message: `Reinstalling previous module of ${canister.name}...` });
+              await installCanisterModule(projectPath, canister.name, previousModule, network);
+            } else if (canister.created) {
+              progress.report({ message: `Uninstalling code of ${canister.name}...` });
+              await uninstallCanisterCode(projectPath, canister.name, network);
+            }
+          }
+
+          progress.report({ message: 'Restoring files...' });
+          for (const file of session.files) {
+            await restoreFile(file);
+          }
+
+          session.undoneAt = new Date().toISOString();
+          await saveSession(projectPath, session);
+          vscode.window.showInformationMessage(`Conversion undone. ${canisterActions.join(' ')}`);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          showErrorWithLogs(`Failed to undo conversion: ${errorMessage}`);
+        }
+      }
+    );
+    await refreshReplicaStatus();
+  });
+
+  context.subscriptions.push(undoCmd);
+
+  const selectNetworkCmd = vscode.commands.registerCommand('icpilot-web2-to-web3.selectNetwork', async () => {
+    const settings = getDeploySettings();
+    const picked = await promptForNetwork(listNetworks(settings), settings.network);
+    if (!picked || picked === settings.network) {
+      return;
+    }
+    const target = vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('icpilot.deploy').update('network', picked, target);
+    vscode.window.showInformationMessage(`ICPilot will deploy canisters to ${picked}.`);
+  });
+
+  context.subscriptions.push(selectNetworkCmd);
+}
+
+/**
+ * Puts a file back to the content recorded before a conversion, deleting it if it did not exist.
+ * Open documents are edited and saved so the editor does not end up out of sync with the disk.
+ */
+async function restoreFile(file: SessionFile): Promise<void> {
+  const uri = vscode.Uri.file(file.path);
+  if (file.original === null) {
+    if (fs.existsSync(file.path)) {
+      await vscode.workspace.fs.delete(uri);
+    }
+    return;
+  }
+
+  const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === file.path);
+  if (document) {
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, new vscode.Range(0, 0, document.lineCount, 0), file.original);
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+  } else {
+    await fs.promises.mkdir(path.dirname(file.path), { recursive: true });
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(file.original));
+  }
 }
+/**
+ * Gets the workspace path of a canister's Motoko source
+ */
+function getCanisterPath(projectPath: string, canisterName: string): string {
+  return path.join(projectPath, 'src', `${canisterName}.mo`);
+}
+
 /**
  * Gets the content of an existing canister file if it exists
  */
 async function getExistingCanisterContent(projectPath: string, canisterName: string): Promise<string | null> {
   try {
-    const filePath = path.join(projectPath, 'src', `${canisterName}.mo`);
+    const filePath = getCanisterPath(projectPath, canisterName);
     if (fs.existsSync(filePath)) {
       const content = fs.readFileSync(filePath, 'utf8');
-      console.log(`Found existing canister at ${filePath}, ${content.length} bytes`);
+      log(`Found existing canister at ${filePath}, ${content.length} bytes`);
       return content;
     }
-    console.log(`No existing canister found at ${filePath}`);
+    log(`No existing canister found at ${filePath}`);
     return null;
   } catch (error) {
-    console.log('Error reading existing canister file:', error);
+    logError('Error reading existing canister file:', error);
     return null;
   }
 }
@@ -318,7 +868,7 @@ async function findOrOpenDocument(filePath: string): Promise<vscode.TextDocument
     await vscode.window.showTextDocument(doc, { preview: false });
     return doc;
   } catch (error) {
-    console.error(`Error opening document ${filePath}:`, error);
+    logError(`Error opening document ${filePath}:`, error);
     return undefined;
   }
 }
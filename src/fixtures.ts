@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FixtureMode } from './config';
+import type { LlmProvider } from './llm';
+import { ResponseFormat } from './schema';
+import { log } from './logger';
+
+const fsPromises = fs.promises;
+
+/**
+ * A recorded prompt/response pair as stored on disk
+ */
+export interface LlmFixture {
+  promptHash: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+/**
+ * Hashes a prompt into the key used for its fixture file
+ */
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt, 'utf8').digest('hex');
+}
+
+/**
+ * Gets the path of the fixture file for a prompt
+ */
+export function getFixturePath(fixtureDir: string, prompt: string): string {
+  return path.join(fixtureDir, `${hashPrompt(prompt)}.json`);
+}
+
+/**
+ * Reads the fixture recorded for a prompt, or null if there is none
+ */
+export async function readFixture(fixtureDir: string, prompt: string): Promise<LlmFixture | null> {
+  const fixturePath = getFixturePath(fixtureDir, prompt);
+  if (!fs.existsSync(fixturePath)) {
+    return null;
+  }
+  return JSON.parse(await fsPromises.readFile(fixturePath, 'utf8')) as LlmFixture;
+}
+
+/**
+ * Saves a prompt/response pair, overwriting any earlier recording of the same prompt
+ */
+export async function writeFixture(fixtureDir: string, fixture: LlmFixture): Promise<void> {
+  await fsPromises.mkdir(fixtureDir, { recursive: true });
+  const fixturePath = path.join(fixtureDir, `${fixture.promptHash}.json`);
+  await fsPromises.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Wraps a provider so that its calls are recorded to, or replayed from, the fixture directory.
+ * Replay never touches the underlying provider, so conversions are reproducible offline.
+ */
+export function withFixtures(provider: LlmProvider, mode: FixtureMode, fixtureDir: string): LlmProvider {
+  if (mode === 'off') {
+    return provider;
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(prompt: string, responseFormat?: ResponseFormat): Promise<string> {
+      if (mode === 'replay') {
+        const fixture = await readFixture(fixtureDir, prompt);
+        if (!fixture) {
+          throw new Error(`No recorded LLM response for prompt ${hashPrompt(prompt)} in ${fixtureDir}. Run the conversion in record mode first.`);
+        }
+        log(`Replaying recorded response ${fixture.promptHash} (${fixture.provider}/${fixture.model})`);
+        return fixture.response;
+      }
+
+      const response = await provider.complete(prompt, responseFormat);
+      await writeFixture(fixtureDir, {
+        promptHash: hashPrompt(prompt),
+        provider: provider.name,
+        model: provider.model,
+        prompt,
+        response,
+        recordedAt: new Date().toISOString()
+      });
+      log(`Recorded response for prompt ${hashPrompt(prompt)}`);
+      return response;
+    }
+  };
+}
@@ -1,35 +1,45 @@
 import fetch from 'node-fetch';
 import { config } from 'dotenv';
+import { JsonSchema, ResponseFormat } from './schema';
+import { logError } from './logger';
 
 // Load environment variables from .env file
 config();
 // Replace with your actual Gemini API key
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY; // Set this in your environment or config
-// console.log('GEMINI_API_KEY:', GEMINI_API_KEY);
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash-001';
 
 /**
- * Extracts JSON content from potentially markdown-formatted text
- * Handles cases where the JSON is wrapped in markdown code blocks
+ * The OpenAPI subset of a schema that Gemini's responseSchema accepts
  */
-function extractJsonFromText(text: string): string {
-  // Try to find JSON content between markdown code blocks
-  const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-  if (jsonMatch && jsonMatch[1]) {
-    return jsonMatch[1].trim();
-  }
-  
-  // If no markdown block found, try to find content that looks like JSON
-  const possibleJson = text.match(/(\{[\s\S]*\})/);
-  if (possibleJson && possibleJson[1]) {
-    return possibleJson[1].trim();
+interface GeminiSchema {
+  type: string;
+  description?: string;
+  enum?: string[];
+  items?: GeminiSchema;
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
+}
+
+/**
+ * Converts a JSON schema into the OpenAPI subset accepted by Gemini's responseSchema
+ */
+function toGeminiSchema(schema: JsonSchema): GeminiSchema {
+  const geminiSchema: GeminiSchema = { type: schema.type.toUpperCase() };
+  if (schema.description) geminiSchema.description = schema.description;
+  if (schema.enum) geminiSchema.enum = schema.enum;
+  if (schema.items) geminiSchema.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    geminiSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
   }
-  
-  // If all else fails, return the original text
-  return text.trim();
+  if (schema.required) geminiSchema.required = schema.required;
+  return geminiSchema;
 }
 
-export async function callGeminiAPI(prompt: string): Promise<string> {
-  const model = 'gemini-1.5-flash-001'; // Use Gemini Flash model
+export async function callGeminiAPI(prompt: string, model = DEFAULT_GEMINI_MODEL, responseFormat?: ResponseFormat): Promise<string> {
   const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${GEMINI_API_KEY}`;
   
   try {
@@ -48,12 +58,16 @@ export async function callGeminiAPI(prompt: string): Promise<string> {
             ],
           },
         ],
+        generationConfig: responseFormat && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(responseFormat.schema),
+        },
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error('Gemini API error details:', {
+      logError('Gemini API error details:', {
         status: response,
         statusText: response.statusText,
         responseBody: errorText
@@ -66,7 +80,7 @@ export async function callGeminiAPI(prompt: string): Promise<string> {
     // Validate the response structure
     if (!data.candidates || !data.candidates[0] || !data.candidates[0].content || 
         !data.candidates[0].content.parts || !data.candidates[0].content.parts[0]) {
-      console.error('Unexpected API response structure:', JSON.stringify(data));
+      logError('Unexpected API response structure:', JSON.stringify(data));
       throw new Error('Unexpected API response structure');
     }
     
@@ -1,123 +1,124 @@
 import * as recast from 'recast';
 import * as esprima from 'esprima';
-// import { callGeminiAPI } from './gemini';
-import { callGroqAPI } from './groq';
+import { getLlmProvider } from './llm';
+import { formatMotokoCode } from './motoko-formatter';
+import { mergeCanisterCode, MergeConflict } from './motoko-merge';
+import { parseMotoko } from './motoko-parser';
+import { ClientCanisterTarget, getTargetIdentifiers, wireCanisterTargets } from './candid';
+import { describeRouteState, ExpressRoute, getRouteMethodHeader, renderRouteCanister, RouteConversion } from './express-routes';
+import {
+  CLIENT_RESPONSE_SCHEMA,
+  CONVERSION_RESPONSE_SCHEMA,
+  formatSchemaErrors,
+  ResponseFormat,
+  ROUTE_HANDLER_SCHEMA,
+  validateAgainstSchema
+} from './schema';
+import { log, logError } from './logger';
+
+const CONVERSION_RESPONSE_FORMAT: ResponseFormat = {
+  name: 'canister_conversion',
+  schema: CONVERSION_RESPONSE_SCHEMA
+};
+
+const CLIENT_RESPONSE_FORMAT: ResponseFormat = {
+  name: 'client_conversion',
+  schema: CLIENT_RESPONSE_SCHEMA
+};
+
+const ROUTE_HANDLER_FORMAT: ResponseFormat = {
+  name: 'route_handler',
+  schema: ROUTE_HANDLER_SCHEMA
+};
 
 /**
- * Enhanced JSON extraction function to handle various formats and edge cases
- * @param text The input text to parse
- * @returns The parsed JSON object
+ * How generated canisters keep their data. Canisters are upgraded in place on every later
+ * conversion, and an upgrade resets everything that is not stable.
  */
-function extractJsonFromText(text: string): any {
-  if (!text || typeof text !== 'string') {
-    throw new Error('Input text must be a non-empty string');
-  }
-
-  console.log('Attempting to extract JSON from response');
-  
-  // First try: direct JSON parsing of the entire text
-  try {
-    return JSON.parse(text);
-  } catch (firstError) {
-    console.log('Direct JSON parsing failed, trying to find JSON object in text');
-  }
+const STABLE_STATE_INSTRUCTION = `
+CANISTER STATE:
+The canister is upgraded in place whenever the code is converted again, and an upgrade resets every variable that is not stable.
+- Keep ALL persistent data (users, records, counters, settings) in \`stable var\` declarations of stable types: primitives, records, variants, arrays, Principal, Blob, Trie or List. Never store it only in a plain \`var\`.
+- HashMap, Buffer and TrieMap are not stable. If you use one for lookups, keep the data in a stable array as well: copy it out in \`system func preupgrade()\` and rebuild the map in \`system func postupgrade()\`.
+- Never remove, rename or change the type of an existing stable variable; add new stable variables instead.
+- Never remove an existing public function or change its argument or result types; add new functions, or optional (?T) arguments and record fields, instead.
+`;
 
-  // Second try: Find JSON in markdown code blocks
-  const jsonBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-  if (jsonBlockMatch && jsonBlockMatch[1]) {
-    try {
-      return JSON.parse(jsonBlockMatch[1]);
-    } catch (blockError) {
-      console.log('JSON parsing from code block failed');
-    }
+/**
+ * Finds actor state that an upgrade would reset: variables that are not stable, and
+ * collections that are not stable without upgrade hooks copying them out
+ * @returns One problem per declaration, for the model to fix
+ */
+function findTransientState(canisterCode: string): string[] {
+  const actor = parseMotoko(canisterCode).actor;
+  // In a persistent actor every variable is stable unless marked transient
+  if (!actor || /\bpersistent\b/.test(actor.header)) {
+    return [];
   }
+  const hasUpgradeHook = actor.declarations.some(declaration => declaration.kind === 'func' && declaration.name === 'preupgrade');
+  return actor.declarations
+    .filter(declaration => !declaration.modifiers.includes('stable') && !declaration.modifiers.includes('transient'))
+    .filter(declaration => (declaration.kind === 'var' && !hasUpgradeHook) ||
+      (declaration.kind === 'let' && !hasUpgradeHook && /\b(HashMap|Buffer|TrieMap)\.\w+\s*[(<]/.test(declaration.text)))
+    .map(declaration =>
+      `$.canisterCode: "${declaration.name ?? declaration.signature}" is reset by every upgrade. ` +
+      'Declare it `stable` with a stable type, or copy it out in preupgrade and back in postupgrade.'
+    );
+}
 
-  // Third try: Find anything that looks like a JSON object
-  const jsonPattern = /(\{[\s\S]*\})/g;
-  const matches = text.match(jsonPattern);
-  
-  if (matches) {
-    for (const potentialJson of matches) {
-      try {
-        return JSON.parse(potentialJson);
-      } catch (matchError) {
-        continue; // Try the next match
-      }
-    }
+/**
+ * Parses the model response as JSON. A single surrounding markdown code fence is tolerated,
+ * anything else is reported back to the model instead of being repaired here.
+ * @param text The raw model response
+ * @returns The parsed JSON value
+ */
+function parseJsonResponse(text: string): any {
+  if (!text || typeof text !== 'string') {
+    throw new Error('The response was empty');
   }
 
-  // Fourth try: Manual repair of common issues
-  let repaired = text
-    .replace(/\\n/g, '\\\\n') // Double escape newlines
-    .replace(/\\"/g, '\\\\"') // Double escape quotes
-    .replace(/(['"])(\\?.)*?\1/g, match => {
-      // Fix quotes within strings
-      return match.replace(/\\(?!")"/g, '\\\\"');
-    });
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const candidate = fenced ? fenced[1] : trimmed;
 
   try {
-    return JSON.parse(repaired);
-  } catch (repairError) {
-    // Last resort: Try to manually construct a JSON object from the response
-    try {
-      const canisterCodeMatch = text.match(/["']canisterCode["']\s*:\s*["'](.*?)["']/s);
-      const modifiedCodeMatch = text.match(/["']modifiedWeb2Code["']\s*:\s*["'](.*?)["']/s);
-      const canisterNameMatch = text.match(/["']canisterName["']\s*:\s*["'](.*?)["']/s);
-
-      if (canisterCodeMatch && modifiedCodeMatch && canisterNameMatch) {
-        return {
-          canisterCode: canisterCodeMatch[1].replace(/\\"/g, '"'),
-          modifiedWeb2Code: modifiedCodeMatch[1].replace(/\\"/g, '"'),
-          canisterName: canisterNameMatch[1]
-        };
-      }
-    } catch (lastError) {
-      console.error('All JSON extraction methods failed');
-    }
+    return JSON.parse(candidate);
+  } catch (parseError) {
+    const reason = parseError instanceof Error ? parseError.message : String(parseError);
+    throw new Error(`The response is not valid JSON: ${reason}`);
   }
-
-  throw new Error(`Could not extract valid JSON from the response: ${text.substring(0, 100)}...`);
 }
 
 /**
- * Formats Motoko code into a readable multi-line structure
+ * Builds a repair prompt that quotes the exact problems with the previous response
  */
-function formatMotokoCode(code: string): string {
-  // Basic formatting: split on key Motoko syntax points and indent
-  let formatted = code.trim();
-  
-  // Replace single-line braces with multi-line structure
-  formatted = formatted
-    .replace(/actor\s*{/, 'actor {\n')
-    .replace(/}\s*;/g, '};')
-    .replace(/}/g, '\n}')
-    .replace(/;/g, ';\n')
-    .replace(/\s*public\s*func/g, '  public func')
-    .replace(/:\s*async/g, ' : async')
-    .replace(/{\s*return/g, ' {\n    return')
-    .replace(/}\s*(public|$)/g, '\n  }\n$1');
-
-  // Ensure proper indentation
-  const lines = formatted.split('\n');
-  let indentLevel = 0;
-  const indentedLines = lines.map(line => {
-    if (line.trim().endsWith('}') || line.trim().endsWith('};')) {
-      indentLevel = Math.max(0, indentLevel - 1);
-    }
-    const indent = '  '.repeat(indentLevel);
-    if (line.trim().startsWith('public') || line.trim() === '}') {
-      return indent + line.trim();
-    }
-    return indent + line.trim();
-  }).filter(line => line.trim().length > 0);
+function createRepairPrompt(originalPrompt: string, previousResponse: string, problems: string, format: ResponseFormat): string {
+  return `
+${originalPrompt}
 
-  if (indentedLines.length > 0 && !indentedLines[indentedLines.length - 1].endsWith('}')) {
-    indentedLines.push('}');
-  }
+YOUR PREVIOUS RESPONSE WAS REJECTED:
+\`\`\`
+${previousResponse}
+\`\`\`
+
+IT FAILED VALIDATION AGAINST THE REQUIRED JSON SCHEMA WITH THESE ERRORS:
+${problems}
 
-  return indentedLines.join('\n');
+REQUIRED JSON SCHEMA:
+${JSON.stringify(format.schema, null, 2)}
+
+Fix exactly these errors and return the complete corrected JSON object. Return ONLY the JSON object.
+`;
 }
 
+/**
+ * The response the conversion prompt shows as an example
+ */
+const EXAMPLE_RESPONSE = {
+  canisterCode: 'actor GreeterCanister {\n  public query func greet(name : Text) : async Text {\n    "Hello " # name\n  };\n}',
+  canisterName: 'GreeterCanister'
+};
+
 /**
  * Creates a detailed prompt for the LLM API with clearer JSON formatting instructions
  */
@@ -125,13 +126,11 @@ function createDetailedPrompt(
   web2Code: string, 
   functionalityFocus?: string, 
   isConsolidated = false,
-  existingCanisterName?: string,
-  existingCanisterId?: string,
+  canisterName?: string,
   existingCanisterCode?: string | null
 ): string {
   let focusInstruction = '';
   let consolidatedInstruction = '';
-  let canisterIdInstruction = '';
   let existingCodeInstruction = '';
   
   if (functionalityFocus && functionalityFocus.trim()) {
@@ -147,28 +146,19 @@ for the mentioned functionality to work, include them as well.
   if (isConsolidated) {
     consolidatedInstruction = `
 IMPORTANT: This input contains code from multiple files (indicated by file comments).
-Create ONE SINGLE CONSOLIDATED canister with name "ConsolidatedCanister" that includes ALL functions from these files.
+Create ONE SINGLE CONSOLIDATED canister with name "ConsolidatedCanister" that includes ALL functions from these files,
+or only the functions named in the focus above if it lists them.
 The canister should be well-structured with clear organization of functions.
 `;
-  } else if (existingCanisterName) {
+  } else if (canisterName) {
     consolidatedInstruction = `
-IMPORTANT: A canister named "${existingCanisterName}" already exists that contains all necessary functions.
-DO NOT create a new canister. Instead, modify this client code to use the existing canister.
-In the modifiedWeb2Code, use the existing canister name (${existingCanisterName}) and DO NOT change the canisterName field.
-`;
-  }
-
-  if (existingCanisterId) {
-    canisterIdInstruction = `
-IMPORTANT: Use the exact canister ID "${existingCanisterId}" in the client code. 
-Replace any canister ID placeholders with this specific ID.
-Set this ONCE as a constant at the top of your file - DO NOT declare it multiple times.
+IMPORTANT: Name the canister "${canisterName}": declare it as \`actor ${canisterName}\` and return "${canisterName}" as canisterName.
 `;
   }
 
   if (existingCanisterCode) {
     existingCodeInstruction = `
-IMPORTANT: The canister "${existingCanisterName || 'MainCanister'}" already exists with the following code.
+IMPORTANT: The canister "${canisterName || 'MainCanister'}" already exists with the following code.
 DO NOT REPLACE THIS CODE. Instead, MERGE your new functions with the existing ones.
 KEEP ALL EXISTING FUNCTIONALITY while adding new functions to handle the Web2 code conversion.
 
@@ -182,11 +172,12 @@ ${existingCanisterCode}
   return `
 INSTRUCTIONS:
 You are an expert in ICP blockchain and Web2-to-Web3 transitions.
-Your task is to REPLACE Web2 JavaScript code with Web3 equivalent using Internet Computer Protocol.
+Your task is to implement the functionality of the Web2 JavaScript code below as a Motoko canister on the Internet Computer Protocol.
+The client code is rewritten separately once the canister is deployed; return only the canister.
 ${focusInstruction}
 ${consolidatedInstruction}
-${canisterIdInstruction}
 ${existingCodeInstruction}
+${STABLE_STATE_INSTRUCTION}
 
 INPUT:
 \`\`\`javascript
@@ -195,12 +186,11 @@ ${web2Code}
 
 OUTPUT REQUIREMENTS:
 1. ${existingCanisterCode ? 'UPDATE the existing Motoko canister by adding new functions to handle the provided Web2 code.' : 'Generate a new Motoko canister that replicates the core functionality of the provided Web2 code.'}
-2. TRANSFORM the Web2 JavaScript code to Web3 code that uses the canister via @dfinity/agent.
-3. REPLACE Web2 functionality with Web3 equivalents - DO NOT keep both versions in your output.
-4. Return a valid JSON object with these exact keys:
+2. Return a valid JSON object with these exact keys:
    - canisterCode: ${existingCanisterCode ? 'The UPDATED Motoko code that INCLUDES all existing functions plus new ones' : 'The complete Motoko code for the canister'}
-   - modifiedWeb2Code: The TRANSFORMED Web2->Web3 JavaScript code that calls the canister
    - canisterName: A descriptive name for the canister
+3. The JSON object MUST validate against this JSON schema:
+${JSON.stringify(CONVERSION_RESPONSE_SCHEMA, null, 2)}
 
 YOUR RESPONSE MUST BE A VALID JSON OBJECT THAT CAN BE PARSED WITH JSON.parse()
 DO NOT include any text outside the JSON object.
@@ -208,226 +198,105 @@ DO NOT use markdown code blocks in your response.
 PROPERLY ESCAPE all quotes and special characters in strings.
 For multi-line strings like canisterCode, use explicit \\n for line breaks.
 
-${existingCanisterId ? `IMPORTANT: In the modifiedWeb2Code, declare the canister ID as "const canisterId = \\"${existingCanisterId}\\";" ONCE at the top of your code.` : ''}
-
 EXAMPLE OF EXPECTED RESPONSE FORMAT:
-${existingCanisterId ? 
-  `{"canisterCode":"actor {\\n  // Existing functions are preserved\\n  public func existingFunction() : async Text {\\n    return \\"I was here before\\";\\n  };\\n\\n  // New function added\\n  public func greet(name: Text) : async Text {\\n    return \\"Hello \\" # name;\\n  };\\n}","modifiedWeb2Code":"import { Actor, HttpAgent } from \\"@dfinity/agent\\";\\nconst canisterId = \\"${existingCanisterId}\\";\\n\\n// Define the interface for our canister\\nconst canisterInterface = {\\n  // Use the canister\\n};\\n\\nconst agent = new HttpAgent();\\nconst greetingCanister = Actor.createActor(canisterInterface, { agent, canisterId });\\n\\n// Transformed Web2 function\\nasync function greetUser(name) {\\n  const greeting = await greetingCanister.greet(name);\\n  return greeting;\\n}","canisterName":"GreeterCanister"}` :
-  `{"canisterCode":"actor {\\n  public func greet(name: Text) : async Text {\\n    return \\"Hello \\" # name;\\n  };\\n}","modifiedWeb2Code":"import { Actor, HttpAgent } from \\"@dfinity/agent\\";\\n// rest of code","canisterName":"GreeterCanister"}`
-}
+${JSON.stringify(EXAMPLE_RESPONSE)}
 `;
 }
 
 /**
- * Extract function declarations from Motoko code
- * @param code Motoko code
- * @returns Array of function declarations
+ * Sends a prompt to the configured provider and retries with repair prompts until the
+ * response parses and validates against the format's schema
+ * @param validate Checks beyond the schema; each returned string is reported as a problem
+ * @returns The parsed response
  */
-function extractMotokoFunctions(code: string): string[] {
-  // Find all public func declarations - this is a simple extraction
-  // In a real implementation you might need a proper parser
-  const functionRegex = /public\s+(?:shared\s+)?(?:query\s+)?func\s+([^{]+){([^}]*)}/g;
-  const functions: string[] = [];
-  let match;
-  
-  while ((match = functionRegex.exec(code)) !== null) {
-    functions.push(`public ${match[0].substring(6).trim()}`);
-  }
-  
-  return functions;
-}
+export async function requestStructuredResponse(
+  prompt: string,
+  format: ResponseFormat,
+  validate?: (value: any) => string[]
+): Promise<any> {
+  const provider = getLlmProvider();
+  log(`Using LLM provider ${provider.name} (${provider.model})`);
 
-/**
- * Merges existing canister code with new code by preserving existing functions
- * @param existingCode Existing canister code
- * @param newCode New canister code
- * @returns Merged canister code
- */
-function mergeCanisterCode(existingCode: string, newCode: string): string {
-  // If the AI already did a good job merging, just return the new code
-  if (newCode.includes("// Existing functions") || 
-      newCode.includes("// existing functions")) {
-    return newCode;
-  }
-  
-  // Extract actor declaration from existing code
-  const actorMatch = existingCode.match(/actor\s+(?:\w+\s*)?{/);
-  if (!actorMatch) return newCode; // If we can't find actor declaration, just use new code
-  
-  const actorDeclaration = actorMatch[0];
-  
-  // Extract existing functions
-  const existingFunctions = extractMotokoFunctions(existingCode);
-  console.log(`Found ${existingFunctions.length} existing functions`);
-  
-  // Extract new functions
-  const newFunctions = extractMotokoFunctions(newCode);
-  console.log(`Found ${newFunctions.length} new functions`);
-  
-  // Create a set of function names to avoid duplicates
-  const existingFunctionNames = new Set(existingFunctions.map(f => {
-    const nameMatch = f.match(/func\s+(\w+)/);
-    return nameMatch ? nameMatch[1] : '';
-  }).filter(Boolean));
-  
-  // Filter out functions that already exist
-  const uniqueNewFunctions = newFunctions.filter(f => {
-    const nameMatch = f.match(/func\s+(\w+)/);
-    const name = nameMatch ? nameMatch[1] : '';
-    return name && !existingFunctionNames.has(name);
-  });
-  
-  console.log(`Adding ${uniqueNewFunctions.length} unique new functions`);
-  
-  // Build the merged code
-  let mergedCode = actorDeclaration + '\n';
-  
-  // Add existing functions
-  if (existingFunctions.length > 0) {
-    mergedCode += '  // Existing functions\n  ' + existingFunctions.join('\n\n  ') + '\n\n';
-  }
-  
-  // Add new functions
-  if (uniqueNewFunctions.length > 0) {
-    mergedCode += '  // New functions added\n  ' + uniqueNewFunctions.join('\n\n  ') + '\n';
+  const originalPrompt = prompt;
+  const MAX_RETRIES = 3;
+  let attempt = 0;
+
+  while (attempt < MAX_RETRIES) {
+    attempt++;
+    log(`Attempt ${attempt} to get valid API response`);
+
+    let response: string;
+    try {
+      response = await provider.complete(prompt, format);
+      log(`Raw API response (attempt ${attempt}) length: ${response.length}`);
+    } catch (apiError) {
+      logError(`API error on attempt ${attempt}:`, apiError);
+      if (attempt === MAX_RETRIES) {
+        throw apiError;
+      }
+      continue;
+    }
+
+    let problems: string;
+    try {
+      const result = parseJsonResponse(response);
+      const schemaErrors = validateAgainstSchema(result, format.schema);
+      const extraProblems = schemaErrors.length === 0 && validate ? validate(result) : [];
+      if (schemaErrors.length === 0 && extraProblems.length === 0) {
+        log("Successfully parsed and validated JSON response");
+        return result;
+      }
+      problems = [formatSchemaErrors(schemaErrors), ...extraProblems.map(problem => `- ${problem}`)]
+        .filter(Boolean)
+        .join('\n');
+    } catch (jsonError) {
+      problems = `- $: ${jsonError instanceof Error ? jsonError.message : String(jsonError)}`;
+    }
+
+    logError(`Response failed validation (attempt ${attempt}):\n${problems}`);
+    if (attempt === MAX_RETRIES) {
+      throw new Error(`Failed to get a valid response after ${MAX_RETRIES} attempts:\n${problems}`);
+    }
+
+    // Send the exact validation errors back so the model can correct them
+    prompt = createRepairPrompt(originalPrompt, response, problems, format);
   }
-  
-  // Close actor
-  mergedCode += '\n}';
-  
-  return mergedCode;
+
+  throw new Error(`Failed to get a valid response after ${MAX_RETRIES} attempts`);
 }
 
 /**
- * Validates if the response object has the required fields and correct types
+ * Generates the canister implementing Web2 code, merged into the existing canister if there is one
  */
-function validateResponseStructure(obj: any): boolean {
-  if (!obj || typeof obj !== 'object') return false;
-  
-  if (!obj.canisterCode || typeof obj.canisterCode !== 'string') return false;
-  if (!obj.modifiedWeb2Code || typeof obj.modifiedWeb2Code !== 'string') return false;
-  if (!obj.canisterName || typeof obj.canisterName !== 'string') return false;
-  
-  return true;
-}
-
-// ... (rest of generator.ts remains unchanged until generateCanisterAndModifyCode)
-
-export async function generateCanisterAndModifyCode(
+export async function generateCanisterCode(
   web2Code: string, 
   functionalityFocus?: string,
   isConsolidated = false,
-  existingCanisterName?: string,
-  existingCanisterId?: string,
+  canisterName?: string,
   existingCanisterCode?: string | null
 ): Promise<{
   canisterCode: string;
-  modifiedWeb2Code: string;
   canisterName: string;
+  mergeConflicts: MergeConflict[];
 }> {
-  const forcedCanisterName = isConsolidated ? "ConsolidatedCanister" : existingCanisterName;
-  let prompt = createDetailedPrompt(
+  const forcedCanisterName = isConsolidated ? "ConsolidatedCanister" : canisterName;
+  const prompt = createDetailedPrompt(
     web2Code, 
     functionalityFocus, 
     isConsolidated, 
     forcedCanisterName, 
-    existingCanisterId,
     existingCanisterCode
   );
   
-  const MAX_RETRIES = 3;
-  let attempt = 0;
-  let result: any;
-  
-  while (attempt < MAX_RETRIES) {
-    attempt++;
-    console.log(`Attempt ${attempt} to get valid API response`);
-    
-    try {
-      // Request response with clear JSON formatting instructions
-      const response = await callGroqAPI(prompt);
-      console.log(`Raw API response (attempt ${attempt}) length: ${response.length}`);
-      
-      try {
-        result = extractJsonFromText(response);
-        
-        if (validateResponseStructure(result)) {
-          console.log("Successfully extracted and validated JSON response");
-          // Format the canister code for better readability
-          result.canisterCode = formatMotokoCode(result.canisterCode);
-          break;
-        } else {
-          console.error("Extracted JSON is missing required fields:", result);
-          
-          // Try to fix common structure issues
-          if (result && typeof result === 'object') {
-            if (!result.canisterCode && result.canistercode) {
-              result.canisterCode = result.canistercode;
-            }
-            if (!result.modifiedWeb2Code && result.modifiedweb2code) {
-              result.modifiedWeb2Code = result.modifiedweb2code;
-            }
-            if (!result.canisterName && result.canistername) {
-              result.canisterName = result.canistername;
-            }
-            
-            // Check again after corrections
-            if (validateResponseStructure(result)) {
-              console.log("Fixed JSON structure after case-insensitive key correction");
-              result.canisterCode = formatMotokoCode(result.canisterCode);
-              break;
-            }
-          }
-          
-          if (attempt === MAX_RETRIES) {
-            throw new Error("Failed to get valid JSON after maximum retries");
-          }
-        }
-      } catch (jsonError) {
-        console.error(`JSON parsing error (attempt ${attempt}):`, jsonError);
-        if (attempt === MAX_RETRIES) {
-          throw jsonError;
-        }
-      }
-      
-      // Simplify the prompt for retry to get cleaner output
-      prompt = `
-I need you to convert this JavaScript code to an ICP canister. Reply ONLY with a valid JSON object containing:
-- canisterCode: Motoko code as a string with \\n for newlines
-- modifiedWeb2Code: Modified JavaScript code as a string
-- canisterName: Name for the canister
-
-Here is the code to convert:
-\`\`\`javascript
-${web2Code}
-\`\`\`
+  const result: any = await requestStructuredResponse(prompt, CONVERSION_RESPONSE_FORMAT, value => findTransientState(value.canisterCode));
 
-RETURN ONLY A RAW JSON OBJECT WITH NO FORMATTING OR EXPLANATION:
-`;
-      
-    } catch (apiError) {
-      console.error(`API error on attempt ${attempt}:`, apiError);
-      if (attempt === MAX_RETRIES) {
-        throw apiError;
-      }
-    }
-  }
-  
-  if (!validateResponseStructure(result)) {
-    // Create a fallback minimal result if all else fails
-    result = {
-      canisterCode: `actor ${forcedCanisterName || "MainCanister"} {\n  // Generated fallback canister\n  public func process(input: Text) : async Text {\n    return "Processed: " # input;\n  };\n}`,
-      modifiedWeb2Code: web2Code + "\n\n// TODO: Implement canister integration",
-      canisterName: forcedCanisterName || "MainCanister"
-    };
-  }
-  
   // Format and merge the canister code if there's existing code
+  let mergeConflicts: MergeConflict[] = [];
   if (existingCanisterCode && result.canisterCode) {
-    console.log('Merging new canister code with existing code');
-    const formattedExistingCode = formatMotokoCode(existingCanisterCode);
-    const formattedNewCode = formatMotokoCode(result.canisterCode);
-    result.canisterCode = mergeCanisterCode(formattedExistingCode, formattedNewCode);
+    log('Merging new canister code with existing code');
+    const merged = mergeCanisterCode(existingCanisterCode, result.canisterCode);
+    result.canisterCode = merged.code;
+    mergeConflicts = merged.conflicts;
   } else {
     result.canisterCode = formatMotokoCode(result.canisterCode);
   }
@@ -436,68 +305,134 @@ RETURN ONLY A RAW JSON OBJECT WITH NO FORMATTING OR EXPLANATION:
     result.canisterName = forcedCanisterName;
   }
   
-  // Enhanced canister ID replacement with multiple patterns and duplicate detection
-  if (existingCanisterId) {
-    console.log(`Replacing canister ID placeholders with: ${existingCanisterId}`);
-    
-    // Check if the code already has a canister ID declaration
-    const hasCanisterIdDeclaration = /const\s+canisterId\s*=|let\s+canisterId\s*=|var\s+canisterId\s*=/.test(result.modifiedWeb2Code);
-    
-    // Look for multiple common placeholder patterns
-    const patterns = [
-      /["']CANISTER_ID["']/g,
-      /["']canister-id["']/g,
-      /["']canisterId["']/g,
-      /canisterId\s*=\s*["'][^"']*["']/g,
-      /canister_id\s*=\s*["'][^"']*["']/g,
-      /const\s+canisterId\s*=\s*["'][^"']*["']/g,
-      /let\s+canisterId\s*=\s*["'][^"']*["']/g,
-      /var\s+canisterId\s*=\s*["'][^"']*["']/g,
-      /createActor\(\s*["'][^"']*["']/g
-    ];
-    
-    let originalCode = result.modifiedWeb2Code;
-    
-    // Apply all replacements
-    for (const pattern of patterns) {
-      result.modifiedWeb2Code = result.modifiedWeb2Code.replace(pattern, (match: string) => {
-        // Special handling for different patterns
-        if (match.includes('canisterId =') || match.includes('canister_id =')) {
-          return match.replace(/["'][^"']*["']/, `"${existingCanisterId}"`);
-        } else if (match.includes('const canisterId =') || match.includes('let canisterId =') || match.includes('var canisterId =')) {
-          return match.replace(/["'][^"']*["']/, `"${existingCanisterId}"`);
-        } else if (match.includes('createActor(')) {
-          return `createActor("${existingCanisterId}"`;
-        } else {
-          return `"${existingCanisterId}"`;
-        }
-      });
-    }
-    
-    // Only add canister ID declaration if one doesn't exist yet
-    if (!hasCanisterIdDeclaration && originalCode === result.modifiedWeb2Code) {
-      const importMatch = result.modifiedWeb2Code.match(/import.*?;/s);
-      if (importMatch) {
-        const importStatement = importMatch[0];
-        const importEndIndex = result.modifiedWeb2Code.indexOf(importStatement) + importStatement.length;
-        result.modifiedWeb2Code = 
-          result.modifiedWeb2Code.slice(0, importEndIndex) + 
-          `\n\n// Canister ID for the deployed ${existingCanisterName || "MainCanister"}\nconst canisterId = "${existingCanisterId}";\n` + 
-          result.modifiedWeb2Code.slice(importEndIndex);
-      } else {
-        result.modifiedWeb2Code = 
-          `// Canister ID for the deployed ${existingCanisterName || "MainCanister"}\nconst canisterId = "${existingCanisterId}";\n\n` + 
-          result.modifiedWeb2Code;
-      }
-      console.log('Added explicit canister ID declaration to the code');
-    } else {
-      console.log('Canister ID already defined or replaced in the code');
-    }
-  }
-  
   return {
     canisterCode: result.canisterCode,
-    modifiedWeb2Code: result.modifiedWeb2Code || '',
     canisterName: result.canisterName || forcedCanisterName || 'MainCanister',
+    mergeConflicts,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Creates the prompt for a route handler the rule-based converter could not translate
+ */
+function createRouteHandlerPrompt(route: ExpressRoute, conversion: RouteConversion, canisterNotes?: string): string {
+  return `Translate this ${route.method} ${route.path} route handler into a method of a Motoko canister.
+
+ROUTE HANDLER (from ${route.file}):
+\`\`\`javascript
+${route.handlerSource}
+\`\`\`
+
+THE CANISTER ALREADY DECLARES:
+${describeRouteState(conversion)}
+${canisterNotes ? `\n${canisterNotes}\n` : ''}
+REQUIREMENTS:
+- Use exactly this header: ${getRouteMethodHeader(route)}
+- Path parameters and the request body (JSON text) are passed as Text arguments.
+- Return the JSON response body as Text.
+- Respond with an error status by rejecting: throw Error.reject("<status>: <JSON body>"), e.g. throw Error.reject("404: {\\"error\\":\\"Not found\\"}").
+- Read and modify the collections declared above; put anything else the method needs in stateDeclarations.
+${route.authenticated ? '- Start with requireAuthenticated(caller); record the caller as the owner of items the method creates, and call requireOwner before changing or deleting an item.\n' : ''}${STABLE_STATE_INSTRUCTION}
+Respond with a JSON object with:
+- "canisterMethod": the complete public function
+- "stateDeclarations": additional declarations, or an empty array`;
+}
+
+/**
+ * Builds the canister of the Express or Koa routes found by the rule-based converter. Handlers
+ * the rules translate need no model; the model is asked for the others one at a time.
+ * @param existingCanisterCode The canister of an earlier conversion, merged with the new one
+ * @param canisterNotes What else the canister keeps, such as data models, browser storage and access control
+ */
+export async function generateRouteCanister(
+  canisterName: string,
+  conversion: RouteConversion,
+  existingCanisterCode?: string | null,
+  canisterNotes?: string
+): Promise<{ canisterCode: string; mergeConflicts: MergeConflict[] }> {
+  const methods: string[] = [];
+  const declarations: string[] = [];
+  for (const route of conversion.routes) {
+    if (route.motoko) {
+      methods.push(route.motoko);
+      continue;
+    }
+    log(`Translating ${route.method} ${route.path} with the model`);
+    const header = getRouteMethodHeader(route).replace(/\s+/g, ' ');
+    const result = await requestStructuredResponse(createRouteHandlerPrompt(route, conversion, canisterNotes), ROUTE_HANDLER_FORMAT, value => [
+      ...(value.canisterMethod.replace(/\s+/g, ' ').includes(header) ? [] : [`$.canisterMethod: must use the header \`${header}\``]),
+      ...(!route.authenticated || /\brequireAuthenticated\(\s*caller\s*\)/.test(value.canisterMethod) ? [] : ['$.canisterMethod: must call requireAuthenticated(caller) before changing anything']),
+      ...findTransientState(`actor {\n${value.stateDeclarations.join('\n')}\n}`).map(problem => problem.replace('$.canisterCode', '$.stateDeclarations'))
+    ]);
+    methods.push(result.canisterMethod);
+    declarations.push(...result.stateDeclarations);
+  }
+
+  const canisterCode = renderRouteCanister(canisterName, conversion, methods, declarations);
+  if (existingCanisterCode) {
+    const merged = mergeCanisterCode(existingCanisterCode, canisterCode);
+    return { canisterCode: merged.code, mergeConflicts: merged.conflicts };
+  }
+  return { canisterCode: formatMotokoCode(canisterCode), mergeConflicts: [] };
+}
+
+/**
+ * Creates the prompt for a client file that calls the functions of one or more deployed canisters
+ */
+function createClientPrompt(web2Code: string, targets: ClientCanisterTarget[], functionalityFocus?: string): string {
+  const canisterSections = targets.map(target => {
+    const ids = getTargetIdentifiers(target.canisterName);
+    return `
+CANISTER "${target.canisterName}":
+- Import its interface as: import { idlFactory as ${ids.idlFactory} } from "${target.bindings.idlFactoryImport}";
+- Create its actor as: const ${ids.actor} = Actor.createActor(${ids.idlFactory}, { agent, canisterId: getCanisterId("${target.canisterName}") });
+- Candid interface:
+\`\`\`candid
+${target.bindings.candid}
+\`\`\``;
+  }).join('\n');
+
+  return `
+INSTRUCTIONS:
+You are an expert in ICP blockchain and Web2-to-Web3 transitions.
+The functionality of the code below has moved into ${targets.length === 1 ? 'a deployed canister' : 'several deployed canisters'}.
+REPLACE the Web2 logic with calls to the canister that implements each function, using @dfinity/agent.
+Create ONE agent with createAgent() from the generated network config, share it between the actors, and read every canister ID with getCanisterId():
+import { createAgent, getCanisterId } from "${targets[0].bindings.configImport}";
+Never write a canister ID into the code; the config knows the ID on every network.
+Do NOT call fetchRootKey yourself; createAgent does so when needed.
+Do NOT write any canister interface by hand.
+Only call methods that exist in the Candid interface of the canister you call, with matching argument and result types.
+${functionalityFocus && functionalityFocus.trim() ? `\nFOCUS ON THIS SPECIFIC FUNCTIONALITY:\n${functionalityFocus}\n` : ''}
+${canisterSections}
+
+INPUT:
+\`\`\`javascript
+${web2Code}
+\`\`\`
+
+Return a valid JSON object that validates against this JSON schema:
+${JSON.stringify(CLIENT_RESPONSE_SCHEMA, null, 2)}
+
+YOUR RESPONSE MUST BE A VALID JSON OBJECT THAT CAN BE PARSED WITH JSON.parse()
+DO NOT include any text outside the JSON object.
+`;
+}
+
+/**
+ * Rewrites a client file to call the canisters that implement its functions. The canisters
+ * are deployed already, so only the client code is asked for.
+ */
+export async function modifyClientCode(
+  web2Code: string,
+  targets: ClientCanisterTarget[],
+  functionalityFocus?: string
+): Promise<string> {
+  if (targets.length === 0) {
+    throw new Error('No canister serves this file');
+  }
+
+  const prompt = createClientPrompt(web2Code, targets, functionalityFocus);
+  const result = await requestStructuredResponse(prompt, CLIENT_RESPONSE_FORMAT);
+  return wireCanisterTargets(result.modifiedWeb2Code, targets);
+}
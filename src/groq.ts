@@ -1,36 +1,20 @@
 import { Groq } from 'groq-sdk';
 import { config} from 'dotenv';
+import { ResponseFormat } from './schema';
+import { log } from './logger';
 
 // Load environment variables from .env file
 config();
+
+export const DEFAULT_GROQ_MODEL = 'llama-3.3-70b-versatile';
+
 // Initialize the Groq client
 const groq = new Groq({
   // You may need to set your API key here or via environment variable
   apiKey: `${process.env.GROQ_API_KEY}`,
 });
 
-/**
- * Extracts JSON content from potentially markdown-formatted text
- * Handles cases where the JSON is wrapped in markdown code blocks
- */
-function extractJsonFromText(text: string): string {
-  // Try to find JSON content between markdown code blocks
-  const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-  if (jsonMatch && jsonMatch[1]) {
-    return jsonMatch[1].trim();
-  }
-  
-  // If no markdown block found, try to find content that looks like JSON
-  const possibleJson = text.match(/(\{[\s\S]*\})/);
-  if (possibleJson && possibleJson[1]) {
-    return possibleJson[1].trim();
-  }
-  
-  // If all else fails, return the original text
-  return text.trim();
-}
-
-export async function callGroqAPI(prompt: string): Promise<string> {
+export async function callGroqAPI(prompt: string, model = DEFAULT_GROQ_MODEL, responseFormat?: ResponseFormat): Promise<string> {
   try {
     // Add explicit instructions for formatting JSON correctly
     const wrappedPrompt = `
@@ -54,10 +38,12 @@ DO NOT format your response in any way that would prevent direct JSON.parse().
           content: wrappedPrompt
         }
       ],
-      model: "llama-3.3-70b-versatile",
+      model,
       temperature: 0.5,  // Reduced for more predictable outputs
       max_tokens: 2048,  // Increased for more complete responses
       top_p: 0.9,
+      // Groq only offers untyped JSON mode; the schema itself travels in the prompt
+      response_format: responseFormat ? { type: 'json_object' } : undefined,
       stream: false,
       stop: null
     });
@@ -66,7 +52,7 @@ DO NOT format your response in any way that would prevent direct JSON.parse().
     const responseText = chatCompletion.choices[0]?.message?.content || '';
     
     // Log the first 100 characters for debugging
-    console.log(`Groq API response start: ${responseText.substring(0, 100)}...`);
+    log(`Groq API response start: ${responseText.substring(0, 100)}...`);
     
     return responseText;
   } catch (error) {
@@ -78,7 +64,7 @@ DO NOT format your response in any way that would prevent direct JSON.parse().
 }
 
 // Streaming version if needed
-export async function streamGroqAPI(prompt: string, callback: (text: string) => void): Promise<void> {
+export async function streamGroqAPI(prompt: string, callback: (text: string) => void, model = DEFAULT_GROQ_MODEL): Promise<void> {
   try {
     const chatCompletion = await groq.chat.completions.create({
       messages: [
@@ -87,7 +73,7 @@ export async function streamGroqAPI(prompt: string, callback: (text: string) =>
           content: prompt
         }
       ],
-      model: "llama-3.3-70b-versatile",
+      model,
       temperature: 1,
       max_tokens: 1024,
       top_p: 1,
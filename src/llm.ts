@@ -0,0 +1,66 @@
+import { callGroqAPI, DEFAULT_GROQ_MODEL } from './groq';
+import { callGeminiAPI, DEFAULT_GEMINI_MODEL } from './gemini';
+import { callLocalAPI, DEFAULT_LOCAL_MODEL } from './local';
+import { getLlmSettings, LlmProviderName, LlmSettings } from './config';
+import { withFixtures } from './fixtures';
+import { ResponseFormat } from './schema';
+
+/**
+ * A model backend that turns a prompt into a raw text completion
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  /**
+   * Completes a prompt. When a response format is given the provider's JSON mode is used,
+   * constrained to the schema where the backend supports it.
+   */
+  complete(prompt: string, responseFormat?: ResponseFormat): Promise<string>;
+}
+
+/**
+ * Creates the provider adapter described by the given settings
+ */
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  switch (settings.provider) {
+    case 'groq': {
+      const model = settings.model || DEFAULT_GROQ_MODEL;
+      return { name: 'groq', model, complete: (prompt, responseFormat) => callGroqAPI(prompt, model, responseFormat) };
+    }
+    case 'gemini': {
+      const model = settings.model || DEFAULT_GEMINI_MODEL;
+      return { name: 'gemini', model, complete: (prompt, responseFormat) => callGeminiAPI(prompt, model, responseFormat) };
+    }
+    case 'local': {
+      const model = settings.model || DEFAULT_LOCAL_MODEL;
+      return {
+        name: 'local',
+        model,
+        complete: (prompt, responseFormat) => callLocalAPI(prompt, {
+          endpoint: settings.localEndpoint,
+          model,
+          apiKey: settings.localApiKey,
+          responseFormat
+        })
+      };
+    }
+    default:
+      throw new Error(`Unknown LLM provider "${settings.provider}". Expected one of: groq, gemini, local.`);
+  }
+}
+
+/**
+ * Returns the provider selected in the extension settings, wrapped for record/replay when enabled
+ */
+export function getLlmProvider(): LlmProvider {
+  const settings = getLlmSettings();
+  const provider = createLlmProvider(settings);
+
+  if (settings.fixtureMode === 'off') {
+    return provider;
+  }
+  if (!settings.fixtureDirectory) {
+    throw new Error(`LLM fixture mode "${settings.fixtureMode}" needs an open workspace folder to store fixtures in.`);
+  }
+  return withFixtures(provider, settings.fixtureMode, settings.fixtureDirectory);
+}
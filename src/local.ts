@@ -0,0 +1,83 @@
+import fetch from 'node-fetch';
+import { ResponseFormat } from './schema';
+import { log, logError } from './logger';
+
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export interface LocalEndpointOptions {
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  endpoint: string;
+  model?: string;
+  apiKey?: string;
+  /** Requests schema-constrained output through `response_format` */
+  responseFormat?: ResponseFormat;
+}
+
+/**
+ * Calls an OpenAI-compatible chat completions endpoint such as Ollama or llama.cpp's server.
+ * Nothing leaves the machine unless the endpoint itself points elsewhere.
+ */
+export async function callLocalAPI(prompt: string, options: LocalEndpointOptions): Promise<string> {
+  const url = `${options.endpoint.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || DEFAULT_LOCAL_MODEL,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a code conversion assistant that outputs only valid JSON. Your responses should contain no markdown, no explanations, just pure JSON objects that can be parsed by JSON.parse().'
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        temperature: 0.5,
+        response_format: options.responseFormat && {
+          type: 'json_schema',
+          json_schema: {
+            name: options.responseFormat.name,
+            schema: options.responseFormat.schema
+          }
+        },
+        stream: false
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logError('Local LLM endpoint error details:', {
+        url,
+        statusText: response.statusText,
+        responseBody: errorText
+      });
+      throw new Error(`Local LLM endpoint error: ${response.statusText} (${url})`);
+    }
+
+    const data = await response.json();
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      logError('Unexpected local endpoint response structure:', JSON.stringify(data));
+      throw new Error('Unexpected local endpoint response structure');
+    }
+
+    log(`Local LLM response start: ${content.substring(0, 100)}...`);
+    return content;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error(`Unexpected error calling local LLM endpoint: ${error}`);
+  }
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChildProcess, exec, ExecOptions } from 'child_process';
+
+/**
+ * A step of a build, deploy or install, marked in the log so a failure can point at it
+ */
+export interface LogPhase {
+  title: string;
+  /** Zero-based line of the log file the phase starts at */
+  line: number;
+}
+
+let channel: vscode.OutputChannel | undefined;
+/** Copy of the channel on disk; output channels cannot be scrolled to a line */
+let logFile: string | undefined;
+let lineCount = 0;
+let currentPhase: LogPhase | undefined;
+
+/**
+ * Creates the ICPilot output channel and its log file, which starts empty on every activation
+ */
+export function initLogger(context: vscode.ExtensionContext): void {
+  channel = vscode.window.createOutputChannel('ICPilot');
+  context.subscriptions.push(channel);
+
+  logFile = path.join(context.logUri.fsPath, 'icpilot.log');
+  fs.mkdirSync(path.dirname(logFile), { recursive: true });
+  fs.writeFileSync(logFile, '');
+  lineCount = 0;
+  currentPhase = undefined;
+}
+
+function timestamp(): string {
+  const now = new Date();
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}.${pad(now.getMilliseconds(), 3)}`;
+}
+
+function append(lines: string[]): void {
+  const text = lines.join('\n') + '\n';
+  if (!channel) {
+    // Not activated, e.g. in a script; there is nowhere else to write
+    console.log(text.trimEnd());
+    return;
+  }
+  channel.append(text);
+  if (logFile) {
+    // Synchronous so streamed output keeps its order and line numbers stay exact
+    fs.appendFileSync(logFile, text);
+  }
+  lineCount += lines.length;
+}
+
+function formatDetail(detail: unknown): string {
+  if (detail instanceof Error) {
+    return detail.stack ?? detail.message;
+  }
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  try {
+    return JSON.stringify(detail);
+  } catch {
+    return String(detail);
+  }
+}
+
+/**
+ * Writes a timestamped message to the ICPilot output channel. Lines after the first are indented.
+ */
+export function log(message: string, ...details: unknown[]): void {
+  const lines = [message, ...details.map(formatDetail)].join(' ').split(/\r?\n/);
+  append(lines.map((line, index) => (index === 0 ? `[${timestamp()}] ${line}` : `    ${line}`)));
+}
+
+/**
+ * Writes a failure to the ICPilot output channel
+ */
+export function logError(message: string, error?: unknown): void {
+  log(`ERROR ${message}`, ...(error === undefined ? [] : [error]));
+}
+
+/**
+ * Marks the start of a phase in the log. Failures reported with `showErrorWithLogs` jump to
+ * the phase that was running.
+ */
+export function startPhase(title: string): LogPhase {
+  append(['', `===== [${timestamp()}] ${title} =====`]);
+  currentPhase = { title, line: lineCount - 1 };
+  return currentPhase;
+}
+
+/**
+ * Streams the stdout and stderr of a process to the log line by line as it runs
+ * @param label Prefix of every line, e.g. the command
+ * @returns A function returning everything the process printed so far
+ */
+export function streamProcessOutput(child: ChildProcess, label: string): () => string {
+  let output = '';
+  const attach = (stream: NodeJS.ReadableStream | null, prefix: string) => {
+    let pending = '';
+    stream?.on('data', (data: Buffer | string) => {
+      const text = data.toString();
+      output += text;
+      const lines = (pending + text).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      lines.forEach(line => log(`${prefix} ${line}`));
+    });
+    stream?.on('end', () => {
+      if (pending) {
+        log(`${prefix} ${pending}`);
+        pending = '';
+      }
+    });
+  };
+  attach(child.stdout, `[${label}]`);
+  attach(child.stderr, `[${label} stderr]`);
+  return () => output;
+}
+
+/**
+ * Runs a shell command like a promisified `exec`, streaming its output to the log.
+ * As with `exec`, a failure is rejected with an error carrying `stdout` and `stderr`.
+ * @param label Prefix of the logged lines; defaults to the program run
+ */
+export function execLogged(
+  command: string,
+  options: ExecOptions = {},
+  label = command.split(/\s+/)[0].replace(/^"|"$/g, '').split(/[\\/]/).pop() ?? command
+): Promise<{ stdout: string; stderr: string }> {
+  log(`$ ${command}${options.cwd ? ` (in ${options.cwd})` : ''}`);
+  return new Promise((resolve, reject) => {
+    const child = exec(command, options, (error, stdout, stderr) => {
+      if (error) {
+        log(`[${label}] exited with code ${error.code ?? 'unknown'}`);
+        reject(Object.assign(error, { stdout: String(stdout), stderr: String(stderr) }));
+      } else {
+        resolve({ stdout: String(stdout), stderr: String(stderr) });
+      }
+    });
+    streamProcessOutput(child, label);
+  });
+}
+
+/**
+ * Shows the log, scrolled to a phase if one is given and the log file exists
+ */
+export async function showLogs(phase?: LogPhase): Promise<void> {
+  if (!phase || !logFile || !fs.existsSync(logFile)) {
+    channel?.show();
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(logFile));
+  const position = new vscode.Position(Math.min(phase.line, document.lineCount - 1), 0);
+  await vscode.window.showTextDocument(document, {
+    preview: true,
+    selection: new vscode.Range(position, position)
+  });
+  vscode.window.activeTextEditor?.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+}
+
+/**
+ * Shows an error notification with a "Show Logs" action that opens the log at the phase
+ * that was running when the error happened
+ * @returns The selected item; "Show Logs" is handled here
+ */
+export async function showErrorWithLogs(message: string, ...items: string[]): Promise<string | undefined> {
+  const phase = currentPhase;
+  logError(message);
+  const selection = await vscode.window.showErrorMessage(message, ...items, 'Show Logs');
+  if (selection === 'Show Logs') {
+    await showLogs(phase);
+  }
+  return selection;
+}
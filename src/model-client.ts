@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as recast from 'recast';
+import { addNamedImports, toModuleSpecifier } from './candid';
+import { DataModel, getModelNames } from './db-models';
+import { parseJavaScript } from './express-routes';
+
+const fsPromises = fs.promises;
+
+/**
+ * The models a canister stores and the module client code reaches them through
+ */
+export interface ModelModule {
+  canisterName: string;
+  models: DataModel[];
+  /** Path of the generated `<name>.models.js` */
+  modulePath: string;
+}
+
+/**
+ * Gets the path of the model client of a canister, next to its generated declarations
+ */
+export function getModelModulePath(declarationsDir: string, canisterName: string): string {
+  return path.join(declarationsDir, `${canisterName}.models.js`);
+}
+
+/**
+ * Name of the store a model is exported as, e.g. `userStore`
+ */
+export function getStoreName(model: DataModel): string {
+  return `${model.name.charAt(0).toLowerCase()}${model.name.slice(1)}Store`;
+}
+
+/**
+ * Renders the model client: one store per model with `list`, `page`, `get`, `create`, `update`
+ * and `remove`, converting between plain objects and the Candid records of the canister
+ */
+function renderModelModule(module: ModelModule, configImport: string): string {
+  const stores = module.models.map(model => {
+    const names = getModelNames(model);
+    const fields = model.fields.map(field => `[${JSON.stringify(field.name)}, ${JSON.stringify(field.type)}, ${field.array}, ${field.optional}]`);
+    return `// ${model.name}, formerly the ${model.source} model ${model.accessor}
+export const ${getStoreName(model)} = createStore({
+  create: ${JSON.stringify(names.create)},
+  get: ${JSON.stringify(names.get)},
+  list: ${JSON.stringify(names.list)},
+  update: ${JSON.stringify(names.update)},
+  remove: ${JSON.stringify(names.remove)},
+  mongoose: ${model.source === 'mongoose'},
+  fields: [${fields.join(', ')}]
+});`;
+  });
+  return `// Generated by ICPilot from the models stored by ${module.canisterName}. Do not edit; convert again instead.
+import { Actor } from "@dfinity/agent";
+import { idlFactory } from "./${module.canisterName}.did.js";
+import { createAgent, getCanisterId } from "${configImport}";
+
+let actor;
+
+function getActor() {
+  if (!actor) {
+    actor = Actor.createActor(idlFactory, { agent: createAgent(), canisterId: getCanisterId(${JSON.stringify(module.canisterName)}) });
+  }
+  return actor;
+}
+
+function toCandidValue(type, value) {
+  switch (type) {
+    case "Int":
+      return BigInt(Math.trunc(Number(value)));
+    case "Float":
+      return Number(value);
+    case "Bool":
+      return Boolean(value);
+    default:
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return typeof value === "string" ? value : JSON.stringify(value);
+  }
+}
+
+function fromCandidValue(type, value) {
+  return type === "Int" ? Number(value) : value;
+}
+
+// Fields are [name, type, array, optional]
+function toCandid(fields, data) {
+  const record = {};
+  for (const [name, type, array, optional] of fields) {
+    const value = data[name];
+    const converted = value === undefined || value === null ? undefined
+      : array ? [].concat(value).map(item => toCandidValue(type, item)) : toCandidValue(type, value);
+    if (optional) {
+      record[name] = converted === undefined ? [] : [converted];
+    } else if (converted === undefined) {
+      throw new Error(\`Missing required field \${name}\`);
+    } else {
+      record[name] = converted;
+    }
+  }
+  return record;
+}
+
+function fromCandid(store, record) {
+  const data = { id: Number(record.id) };
+  if (store.mongoose) {
+    data._id = data.id;
+  }
+  for (const [name, type, array, optional] of store.fields) {
+    const value = optional ? record[name][0] : record[name];
+    data[name] = value === undefined ? null : array ? value.map(item => fromCandidValue(type, item)) : fromCandidValue(type, value);
+  }
+  return data;
+}
+
+const PAGE_SIZE = 100;
+
+function createStore(store) {
+  const methods = {
+    async page(offset = 0, limit = 20) {
+      const page = await getActor()[store.list](BigInt(offset), BigInt(limit));
+      return { items: page.items.map(record => fromCandid(store, record)), total: Number(page.total) };
+    },
+    async list() {
+      const items = [];
+      for (let total = Infinity; items.length < total;) {
+        const page = await methods.page(items.length, PAGE_SIZE);
+        items.push(...page.items);
+        total = page.items.length === 0 ? items.length : page.total;
+      }
+      return items;
+    },
+    async get(id) {
+      const [record] = await getActor()[store.get](BigInt(id));
+      return record ? fromCandid(store, record) : null;
+    },
+    async create(data) {
+      return fromCandid(store, await getActor()[store.create](toCandid(store.fields, data)));
+    },
+    // Changes only the given fields, like an update in the database did
+    async update(id, data) {
+      const current = await methods.get(id);
+      if (!current) {
+        return null;
+      }
+      const [record] = await getActor()[store.update](BigInt(id), toCandid(store.fields, { ...current, ...data }));
+      return record ? fromCandid(store, record) : null;
+    },
+    async remove(id) {
+      return getActor()[store.remove](BigInt(id));
+    }
+  };
+  return methods;
+}
+
+${stores.join('\n\n')}
+`;
+}
+
+/**
+ * Renders the type declarations of the model client
+ */
+function renderModelModuleTypes(module: ModelModule): string {
+  const typeNames: Record<string, string> = { Text: 'string', Int: 'number', Float: 'number', Bool: 'boolean' };
+  const declarations = module.models.map(model => {
+    const fields = model.fields.map(field => `  ${field.name}: ${typeNames[field.type]}${field.array ? '[]' : ''}${field.optional ? ' | null' : ''};`);
+    return `export interface ${model.name} {
+  id: number;
+${model.source === 'mongoose' ? '  _id: number;\n' : ''}${fields.join('\n')}
+}
+
+export declare const ${getStoreName(model)}: ModelStore<${model.name}>;`;
+  });
+  return `// Generated by ICPilot. Do not edit.
+export interface ModelStore<T> {
+  /** Every record, fetched page by page */
+  list(): Promise<T[]>;
+  page(offset?: number, limit?: number): Promise<{ items: T[]; total: number }>;
+  get(id: number | string): Promise<T | null>;
+  create(data: Partial<T>): Promise<T>;
+  update(id: number | string, data: Partial<T>): Promise<T | null>;
+  remove(id: number | string): Promise<boolean>;
+}
+
+${declarations.join('\n\n')}
+`;
+}
+
+/**
+ * Writes the model client of a canister and its type declarations
+ * @param clientConfigPath Path of the generated client config module
+ */
+export async function writeModelModule(module: ModelModule, clientConfigPath: string): Promise<void> {
+  await fsPromises.mkdir(path.dirname(module.modulePath), { recursive: true });
+  await fsPromises.writeFile(module.modulePath, renderModelModule(module, toModuleSpecifier(module.modulePath, clientConfigPath)));
+  await fsPromises.writeFile(module.modulePath.replace(/\.js$/, '.d.ts'), renderModelModuleTypes(module));
+}
+
+function propertyValue(object: any, name: string): any {
+  if (object?.type !== 'ObjectExpression') {
+    return undefined;
+  }
+  const property = object.properties.find((p: any) =>
+    ['Property', 'ObjectProperty'].includes(p.type) && !p.computed && (p.key.name ?? p.key.value) === name
+  );
+  return property?.value;
+}
+
+/**
+ * Reads the id of `{ where: { id } }` or `{ _id: id }` filters
+ */
+function whereId(filter: any): any {
+  const where = propertyValue(filter, 'where') ?? filter;
+  if (where?.type !== 'ObjectExpression' || where.properties.length !== 1) {
+    return undefined;
+  }
+  return propertyValue(where, 'id') ?? propertyValue(where, '_id');
+}
+
+function isEmptyFilter(args: any[]): boolean {
+  return args.length === 0 || (args.length === 1 && args[0].type === 'ObjectExpression' && args[0].properties.length === 0);
+}
+
+/**
+ * A model access the store covers
+ */
+interface ModelCall {
+  method: string;
+  args: any[];
+  /** Source of a function turning the store's result into what the database returned, e.g. a count */
+  result?: string;
+}
+
+/**
+ * Reads a model access the store covers with the same result.
+ * Accesses returning something the store does not, such as the document before an update, are left alone.
+ * @returns The store method and its arguments; undefined for queries it does not cover
+ */
+function readModelCall(model: DataModel, method: string, args: any[]): ModelCall | undefined {
+  if (model.source === 'prisma') {
+    const [options] = args;
+    switch (method) {
+      case 'findMany':
+        return isEmptyFilter(args) ? { method: 'list', args: [] } : undefined;
+      case 'findUnique': {
+        const id = whereId(options);
+        return id && args.length === 1 ? { method: 'get', args: [id] } : undefined;
+      }
+      case 'create': {
+        const data = propertyValue(options, 'data');
+        return data && options.properties.length === 1 ? { method: 'create', args: [data] } : undefined;
+      }
+      case 'update': {
+        const id = whereId(propertyValue(options, 'where'));
+        const data = propertyValue(options, 'data');
+        return id && data && options.properties.length === 2 ? { method: 'update', args: [id, data] } : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  switch (method) {
+    case 'find':
+    case 'findAll':
+      return isEmptyFilter(args) ? { method: 'list', args: [] } : undefined;
+    case 'findById':
+    case 'findByPk':
+      return args.length === 1 ? { method: 'get', args } : undefined;
+    case 'findOne': {
+      const id = args.length === 1 ? whereId(args[0]) : undefined;
+      return id ? { method: 'get', args: [id] } : undefined;
+    }
+    case 'create':
+      return args.length === 1 && args[0].type !== 'ArrayExpression' ? { method: 'create', args } : undefined;
+    case 'findByIdAndUpdate': {
+      // Without { new: true } Mongoose returns the document as it was before the update
+      const returnsNew = propertyValue(args[2], 'new')?.value === true || propertyValue(args[2], 'returnDocument')?.value === 'after';
+      return args.length === 3 && returnsNew && args[2].properties.length === 1 ? { method: 'update', args: args.slice(0, 2) } : undefined;
+    }
+    case 'update': {
+      // Sequelize: Model.update(data, { where: { id } }) resolves to [affectedCount]
+      const id = model.source === 'sequelize' && args.length === 2 ? whereId(args[1]) : undefined;
+      return id ? { method: 'update', args: [id, args[0]], result: 'record => [record ? 1 : 0]' } : undefined;
+    }
+    case 'destroy': {
+      const id = model.source === 'sequelize' && args.length === 1 ? whereId(args[0]) : undefined;
+      return id ? { method: 'remove', args: [id], result: 'removed => (removed ? 1 : 0)' } : undefined;
+    }
+    case 'deleteOne': {
+      const id = model.source === 'mongoose' && args.length === 1 ? whereId(args[0]) : undefined;
+      return id ? { method: 'remove', args: [id], result: 'removed => ({ acknowledged: true, deletedCount: removed ? 1 : 0 })' } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the accessor a call goes through, `User` for `User.find()` and `prisma.user` for `prisma.user.findMany()`
+ */
+function readAccessor(node: any): string | undefined {
+  if (node.type === 'Identifier') {
+    return node.name;
+  }
+  if (node.type === 'MemberExpression' && !node.computed && node.object.type === 'Identifier') {
+    return `${node.object.name}.${node.property.name}`;
+  }
+  return undefined;
+}
+
+/** Methods of Mongoose documents and Sequelize instances that the plain records of the stores lack */
+const DOCUMENT_METHODS = new Set([
+  'save', 'populate', 'remove', 'deleteOne', 'destroy', 'update', 'updateOne', 'set', 'get', 'reload',
+  'increment', 'decrement', 'toObject', 'toJSON', 'validate', 'markModified', 'isModified'
+]);
+
+const FUNCTION_TYPES = ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod', 'Program'];
+
+/**
+ * Checks whether code calls a document method on a variable, e.g. `user.save()`
+ */
+function callsDocumentMethod(node: any, name: string): boolean {
+  let found = false;
+  recast.visit(node, {
+    visitCallExpression(nodePath: any) {
+      const callee = nodePath.node.callee;
+      if (callee.type === 'MemberExpression' && !callee.computed && callee.object.type === 'Identifier' &&
+        callee.object.name === name && DOCUMENT_METHODS.has(callee.property.name)) {
+        found = true;
+        return false;
+      }
+      this.traverse(nodePath);
+    }
+  });
+  return found;
+}
+
+/**
+ * Checks whether the result of a model access needs more than a plain record: a query method such
+ * as `.populate()` is chained onto it, or a document method is called on the variable or `.then()`
+ * parameter it is bound to
+ */
+function isUsedAsDocument(nodePath: any): boolean {
+  const parent = nodePath.parentPath?.node;
+  if (parent?.type === 'MemberExpression' && parent.object === nodePath.node) {
+    const chained = parent.computed ? undefined : parent.property.name;
+    if (!['then', 'catch', 'finally'].includes(chained)) {
+      return true;
+    }
+    const callback = chained === 'then' ? nodePath.parentPath.parentPath.node.arguments?.[0] : undefined;
+    const param = callback?.params?.[0];
+    return param?.type === 'Identifier' && callsDocumentMethod(callback.body, param.name);
+  }
+  // const user = await User.findById(id), or user = await User.findById(id)
+  const resultPath = parent?.type === 'AwaitExpression' ? nodePath.parentPath : nodePath;
+  const binding = resultPath.parentPath?.node;
+  const name = binding?.type === 'VariableDeclarator' && binding.init === resultPath.node ? binding.id.name
+    : binding?.type === 'AssignmentExpression' && binding.right === resultPath.node ? binding.left.name : undefined;
+  if (!name) {
+    return false;
+  }
+  let scope = resultPath.parentPath;
+  while (scope && !FUNCTION_TYPES.includes(scope.node.type)) {
+    scope = scope.parentPath;
+  }
+  return !!scope && callsDocumentMethod(scope.node, name);
+}
+
+/**
+ * Points the model accesses of code at the model clients: `User.findById(id)` becomes
+ * `userStore.get(id)`, `prisma.user.findMany()` becomes `userStore.list()`, and so on.
+ * Queries the stores do not cover, such as filters, and results used as documents, such as
+ * `user.save()`, are left alone; counts returned by updates and deletes keep their shape.
+ * @param filePath Path of the file, to import the model clients relative to it
+ * @returns The rewritten code; unchanged if no access was rewritten
+ */
+export function rewriteModelCalls(code: string, filePath: string, modules: ModelModule[]): string {
+  let ast: any;
+  try {
+    ast = parseJavaScript(code);
+  } catch {
+    return code;
+  }
+  const byAccessor = new Map<string, { model: DataModel; module: ModelModule }>();
+  for (const module of modules) {
+    module.models.forEach(model => byAccessor.set(model.accessor, { model, module }));
+  }
+  const imports = new Map<ModelModule, Set<string>>();
+  const b = recast.types.builders;
+
+  recast.visit(ast, {
+    visitCallExpression(nodePath: any) {
+      // Mongoose queries are often finished with .exec() or .lean(); the stores return plain objects already
+      let call = nodePath.node;
+      while (call.callee.type === 'MemberExpression' && !call.callee.computed && ['exec', 'lean'].includes(call.callee.property.name) &&
+        call.arguments.length === 0 && call.callee.object.type === 'CallExpression') {
+        call = call.callee.object;
+      }
+      const callee = call.callee;
+      const accessor = callee.type === 'MemberExpression' && !callee.computed ? readAccessor(callee.object) : undefined;
+      const target = accessor ? byAccessor.get(accessor) : undefined;
+      const access = target ? readModelCall(target.model, callee.property.name, call.arguments) : undefined;
+      if (!target || !access || isUsedAsDocument(nodePath)) {
+        this.traverse(nodePath);
+        return;
+      }
+      const store = getStoreName(target.model);
+      imports.set(target.module, (imports.get(target.module) ?? new Set()).add(store));
+      const replacement = b.callExpression(b.memberExpression(b.identifier(store), b.identifier(access.method)), access.args);
+      nodePath.replace(access.result
+        ? b.callExpression(b.memberExpression(replacement, b.identifier('then')), [parseJavaScript(access.result).program.body[0].expression])
+        : replacement);
+      return false;
+    }
+  });
+
+  if (imports.size === 0) {
+    return code;
+  }
+  let rewritten = recast.print(ast).code;
+  for (const [module, names] of imports) {
+    rewritten = addNamedImports(rewritten, [...names], toModuleSpecifier(filePath, module.modulePath));
+  }
+  return rewritten;
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { DiffHunk } from './diff';
+
+/**
+ * A single problem reported by moc. Lines and columns are 1-based, as moc prints them.
+ */
+export interface MotokoDiagnostic {
+  file?: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: 'error' | 'warning' | 'info';
+  /** moc's error code, e.g. M0057 */
+  code?: string;
+  /** Kind of error, e.g. `type` or `syntax` */
+  category?: string;
+  message: string;
+}
+
+// e.g. `/p/main.mo:5.3-5.10: type error [M0057], unbound variable foo`
+const MOC_LINE = /^(?:(.+?):(\d+)\.(\d+)(?:-(\d+)\.(\d+))?|\(unknown location\)):\s+(?:(\w+)\s+)?(error|warning|info)(?:\s+\[(M\d+)\])?,\s*(.*)$/;
+
+/**
+ * Parses moc output into diagnostics. Lines that do not start a diagnostic continue
+ * the message of the previous one.
+ */
+export function parseMocOutput(output: string): MotokoDiagnostic[] {
+  const diagnostics: MotokoDiagnostic[] = [];
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const match = MOC_LINE.exec(rawLine.trim());
+    if (match) {
+      const line = match[2] ? Number(match[2]) : 1;
+      const column = match[3] ? Number(match[3]) : 1;
+      diagnostics.push({
+        file: match[1],
+        line,
+        column,
+        endLine: match[4] ? Number(match[4]) : line,
+        endColumn: match[5] ? Number(match[5]) : column,
+        severity: match[7] as MotokoDiagnostic['severity'],
+        code: match[8],
+        category: match[6],
+        message: match[9]
+      });
+    } else if (diagnostics.length > 0 && rawLine.trim()) {
+      diagnostics[diagnostics.length - 1].message += `\n${rawLine.trimEnd()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Maps a 0-based line of the new side of a diff back to the old side. Lines that only
+ * exist on the new side map to the first line of the hunk that added them.
+ */
+export function mapLineToOriginal(hunks: DiffHunk[], newLine: number): number {
+  let offset = 0;
+  for (const hunk of hunks) {
+    if (newLine < hunk.newStart) {
+      break;
+    }
+    if (newLine < hunk.newStart + hunk.added.length) {
+      const relative = newLine - hunk.newStart;
+      return hunk.oldStart + Math.min(relative, Math.max(0, hunk.removed.length - 1));
+    }
+    offset += hunk.removed.length - hunk.added.length;
+  }
+  return newLine + offset;
+}
+
+const SEVERITIES: Record<MotokoDiagnostic['severity'], vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information
+};
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Creates the collection moc problems are published to
+ */
+export function registerMotokoDiagnostics(context: vscode.ExtensionContext): void {
+  diagnosticCollection = vscode.languages.createDiagnosticCollection('motoko');
+  context.subscriptions.push(diagnosticCollection);
+}
+
+/**
+ * Shows moc diagnostics in the Problems view on a workspace source file
+ * @param hunks Diff from the source file to the file moc compiled, used to map lines back
+ */
+export function publishMotokoDiagnostics(sourceFile: string, diagnostics: MotokoDiagnostic[], hunks: DiffHunk[] = []): void {
+  if (!diagnosticCollection) {
+    return;
+  }
+
+  diagnosticCollection.set(vscode.Uri.file(sourceFile), diagnostics.map(diagnostic => {
+    const startLine = mapLineToOriginal(hunks, diagnostic.line - 1);
+    const endLine = Math.max(startLine, mapLineToOriginal(hunks, diagnostic.endLine - 1));
+    const range = new vscode.Range(
+      startLine,
+      Math.max(0, diagnostic.column - 1),
+      endLine,
+      Math.max(0, diagnostic.endColumn - 1)
+    );
+    const result = new vscode.Diagnostic(range, diagnostic.message, SEVERITIES[diagnostic.severity]);
+    result.source = 'moc';
+    if (diagnostic.code) {
+      result.code = diagnostic.code;
+    }
+    return result;
+  }));
+}
+
+/**
+ * Removes the moc diagnostics of a source file, e.g. after it compiled cleanly
+ */
+export function clearMotokoDiagnostics(sourceFile: string): void {
+  diagnosticCollection?.delete(vscode.Uri.file(sourceFile));
+}
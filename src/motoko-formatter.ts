@@ -0,0 +1,134 @@
+import { isCommentToken, MotokoToken, tokenizeMotoko } from './motoko-lexer';
+
+const INDENT = '  ';
+
+// Tokens that start a declaration; one directly after a block's `}` goes on its own line
+const DECLARATION_STARTS = new Set([
+  'public', 'private', 'system', 'func', 'let', 'var', 'type', 'stable', 'flexible', 'transient',
+  'shared', 'query', 'actor', 'module', 'class', 'object', 'import', 'persistent'
+]);
+
+// Tokens after which a `{` starting with `var` is a mutable record literal rather than a block
+const EXPRESSION_PREFIXES = new Set(['=', ':', 'return']);
+
+interface Group {
+  /** `block` contents go one statement per line, `inline` contents keep their layout */
+  kind: 'block' | 'inline';
+  close: string;
+  /** Indentation of the line the group was opened on */
+  openIndent: number;
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+
+function nextCodeToken(tokens: MotokoToken[], index: number): MotokoToken | undefined {
+  for (let i = index; i < tokens.length; i++) {
+    if (!isCommentToken(tokens[i])) return tokens[i];
+  }
+  return undefined;
+}
+
+/**
+ * Decides whether the `{` at `index` opens a statement block or a record/variant literal or type
+ */
+function classifyBrace(tokens: MotokoToken[], index: number): Group['kind'] {
+  const first = nextCodeToken(tokens, index + 1);
+  if (!first || first.text === '}' || first.text === '#') {
+    return 'inline';
+  }
+
+  const firstIndex = tokens.indexOf(first);
+  const second = nextCodeToken(tokens, firstIndex + 1);
+  if (first.kind === 'identifier' && second && ['=', ':', 'with', 'and'].includes(second.text)) {
+    return 'inline';
+  }
+
+  // Record patterns and arguments such as `shared ({ caller })`
+  const previous = index > 0 ? tokens[index - 1].text : '';
+  if (previous === '(' || previous === ',' || previous === '[') {
+    return 'inline';
+  }
+  if (first.text === 'var' && EXPRESSION_PREFIXES.has(previous)) {
+    return 'inline';
+  }
+
+  return 'block';
+}
+
+/**
+ * Formats Motoko code into a readable multi-line structure.
+ * Blocks get one statement per line and two-space indentation; record and variant
+ * literals, strings and comments are left intact. Formatting is idempotent.
+ */
+export function formatMotokoCode(code: string): string {
+  const tokens = tokenizeMotoko(code);
+  const lines: string[] = [];
+  const stack: Group[] = [];
+  let current = '';
+  let currentIndent = 0;
+  let pendingBreak = false;
+
+  const inBlock = () => stack.length === 0 || stack[stack.length - 1].kind === 'block';
+
+  const startLine = (indent: number, blankLine: boolean) => {
+    if (current.trim()) {
+      lines.push(current.replace(/\s+$/, ''));
+    }
+    if (blankLine && lines.length > 0 && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+    currentIndent = indent;
+    current = INDENT.repeat(indent);
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = index > 0 ? tokens[index - 1] : undefined;
+    const closesGroup = stack.length > 0 && token.text === stack[stack.length - 1].close;
+    const closingGroup = closesGroup ? stack[stack.length - 1] : undefined;
+    const isTrailingComment = isCommentToken(token) && token.newlinesBefore === 0;
+
+    let breakBefore = false;
+    if (previous) {
+      if (previous.kind === 'lineComment') {
+        breakBefore = true;
+      } else if (token.newlinesBefore > 0) {
+        breakBefore = true;
+      } else if (pendingBreak && !isTrailingComment) {
+        breakBefore = true;
+      } else if (closingGroup?.kind === 'block' && previous.text !== '{') {
+        breakBefore = true;
+      } else if (previous.text === '}' && DECLARATION_STARTS.has(token.text) && inBlock()) {
+        breakBefore = true;
+      }
+    }
+
+    if (breakBefore) {
+      const afterOpen = previous?.text === '{' || previous?.text === '(' || previous?.text === '[';
+      const blankLine = token.newlinesBefore >= 2 && !afterOpen && !closesGroup;
+      const indent = closingGroup
+        ? closingGroup.openIndent
+        : stack.length > 0 ? stack[stack.length - 1].openIndent + 1 : 0;
+      startLine(indent, blankLine);
+      pendingBreak = false;
+    } else if (previous && token.spaceBefore) {
+      current += ' ';
+    }
+
+    current += token.text;
+
+    if (closesGroup) {
+      stack.pop();
+    } else if (CLOSERS[token.text]) {
+      const kind = token.text === '{' ? classifyBrace(tokens, index) : 'inline';
+      stack.push({ kind, close: CLOSERS[token.text], openIndent: currentIndent });
+      if (kind === 'block') {
+        pendingBreak = true;
+      }
+    } else if (token.text === ';' && inBlock()) {
+      pendingBreak = true;
+    }
+  });
+
+  startLine(0, false);
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,165 @@
+/**
+ * Kinds of token produced by the Motoko tokenizer
+ */
+export type MotokoTokenKind =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'text'
+  | 'char'
+  | 'lineComment'
+  | 'blockComment'
+  | 'punctuation'
+  | 'operator';
+
+export interface MotokoToken {
+  kind: MotokoTokenKind;
+  text: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character in the source */
+  end: number;
+  /** 1-based line of the first character */
+  line: number;
+  /** 1-based column of the first character */
+  column: number;
+  /** Number of line breaks between the previous token and this one */
+  newlinesBefore: number;
+  /** Whether any whitespace separates this token from the previous one */
+  spaceBefore: boolean;
+}
+
+export const MOTOKO_KEYWORDS = new Set([
+  'actor', 'and', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'composite',
+  'continue', 'debug', 'debug_show', 'do', 'else', 'false', 'flexible', 'for', 'from_candid',
+  'func', 'if', 'ignore', 'import', 'in', 'label', 'let', 'loop', 'module', 'not', 'null',
+  'object', 'or', 'persistent', 'private', 'public', 'query', 'return', 'shared', 'stable',
+  'switch', 'system', 'throw', 'to_candid', 'transient', 'true', 'try', 'type', 'var', 'while', 'with'
+]);
+
+// Longest operators first so that e.g. `:=` wins over `:`
+const OPERATORS = [
+  '<<>=', '<>>=', '**%=', '+%=', '-%=', '*%=', '**=', '<<=', '>>=', '<<>', '<>>', '**%',
+  ':=', '+=', '-=', '*=', '/=', '%=', '#=', '&=', '|=', '^=', '==', '!=', '<=', '>=', '->', '=>',
+  '<<', '>>', '**', '+%', '-%', '*%', '|>',
+  '=', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '!', '?', '#', ':', '.', '@', '_'
+];
+
+const PUNCTUATION = new Set(['{', '}', '(', ')', '[', ']', ';', ',']);
+
+/**
+ * Splits Motoko source into tokens. Text literals, character literals and (nested) comments
+ * are kept whole, so `;` or `}` inside them never look like structure.
+ */
+export function tokenizeMotoko(source: string): MotokoToken[] {
+  const tokens: MotokoToken[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advanceLines = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+  };
+
+  while (pos < source.length) {
+    // Whitespace
+    let newlinesBefore = 0;
+    const whitespaceStart = pos;
+    while (pos < source.length && /\s/.test(source[pos])) {
+      if (source[pos] === '\n') {
+        newlinesBefore++;
+        line++;
+        lineStart = pos + 1;
+      }
+      pos++;
+    }
+    if (pos >= source.length) {
+      break;
+    }
+
+    const start = pos;
+    const tokenLine = line;
+    const column = pos - lineStart + 1;
+    const ch = source[pos];
+    const next = source[pos + 1];
+    let kind: MotokoTokenKind;
+
+    if (ch === '/' && next === '/') {
+      kind = 'lineComment';
+      while (pos < source.length && source[pos] !== '\n') pos++;
+    } else if (ch === '/' && next === '*') {
+      kind = 'blockComment';
+      let depth = 0;
+      while (pos < source.length) {
+        if (source[pos] === '/' && source[pos + 1] === '*') {
+          depth++;
+          pos += 2;
+        } else if (source[pos] === '*' && source[pos + 1] === '/') {
+          depth--;
+          pos += 2;
+          if (depth === 0) break;
+        } else {
+          pos++;
+        }
+      }
+    } else if (ch === '"') {
+      kind = 'text';
+      pos++;
+      while (pos < source.length && source[pos] !== '"') {
+        pos += source[pos] === '\\' ? 2 : 1;
+      }
+      pos++;
+    } else if (ch === '\'' && (next === '\\' || source[pos + 2] === '\'')) {
+      kind = 'char';
+      pos++;
+      while (pos < source.length && source[pos] !== '\'') {
+        pos += source[pos] === '\\' ? 2 : 1;
+      }
+      pos++;
+    } else if (/[0-9]/.test(ch)) {
+      kind = 'number';
+      while (pos < source.length && /[0-9a-fA-FxX_.]/.test(source[pos])) {
+        // Stop before a field access on a number such as `1.toText`
+        if (source[pos] === '.' && !/[0-9]/.test(source[pos + 1] || '')) break;
+        pos++;
+      }
+    } else if (/[A-Za-z_]/.test(ch) && !(ch === '_' && !/[A-Za-z0-9_]/.test(next || ''))) {
+      while (pos < source.length && /[A-Za-z0-9_]/.test(source[pos])) pos++;
+      kind = MOTOKO_KEYWORDS.has(source.slice(start, pos)) ? 'keyword' : 'identifier';
+    } else if (PUNCTUATION.has(ch)) {
+      kind = 'punctuation';
+      pos++;
+    } else {
+      kind = 'operator';
+      const operator = OPERATORS.find(op => source.startsWith(op, pos));
+      pos += operator ? operator.length : 1;
+    }
+
+    pos = Math.min(pos, source.length);
+    advanceLines(start, pos);
+    tokens.push({
+      kind,
+      text: source.slice(start, pos),
+      start,
+      end: pos,
+      line: tokenLine,
+      column,
+      newlinesBefore,
+      spaceBefore: whitespaceStart < start
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns true for tokens that carry no code, i.e. comments
+ */
+export function isCommentToken(token: MotokoToken): boolean {
+  return token.kind === 'lineComment' || token.kind === 'blockComment';
+}
@@ -0,0 +1,149 @@
+import { formatMotokoCode } from './motoko-formatter';
+import { MotokoDeclaration, parseMotoko, printDeclaration } from './motoko-parser';
+import { log } from './logger';
+
+/**
+ * A declaration that exists in both versions with a different signature
+ */
+export interface MergeConflict {
+  name: string;
+  kind: string;
+  existingSignature: string;
+  newSignature: string;
+}
+
+export interface CanisterMergeResult {
+  code: string;
+  /** Names of the declarations taken from the new code */
+  added: string[];
+  /** Declarations whose existing version was kept although the new code changes them */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Key under which a declaration is matched; types and values live in separate namespaces
+ */
+function declarationKey(declaration: MotokoDeclaration): string | undefined {
+  if (declaration.kind === 'comment') {
+    return undefined;
+  }
+  if (!declaration.name) {
+    return `text:${declaration.signatureKey}`;
+  }
+  return declaration.kind === 'type' ? `type:${declaration.name}` : `value:${declaration.name}`;
+}
+
+/**
+ * Compares what callers and stored state depend on: visibility, modifiers and signature
+ */
+function sameShape(a: MotokoDeclaration, b: MotokoDeclaration): boolean {
+  return a.kind === b.kind && a.signatureKey === b.signatureKey;
+}
+
+function mergeDeclarations(
+  existing: MotokoDeclaration[],
+  incoming: MotokoDeclaration[],
+  result: CanisterMergeResult
+): MotokoDeclaration[] {
+  const byKey = new Map<string, MotokoDeclaration>();
+  for (const declaration of existing) {
+    const key = declarationKey(declaration);
+    if (key) byKey.set(key, declaration);
+  }
+
+  const merged = [...existing];
+  for (const declaration of incoming) {
+    const key = declarationKey(declaration);
+    if (!key) {
+      continue;
+    }
+    const current = byKey.get(key);
+    if (!current) {
+      merged.push(declaration);
+      byKey.set(key, declaration);
+      result.added.push(declaration.name || declaration.signature);
+    } else if (!sameShape(current, declaration)) {
+      result.conflicts.push({
+        name: declaration.name || declaration.signature,
+        kind: declaration.kind,
+        existingSignature: current.signature,
+        newSignature: declaration.signature
+      });
+    }
+  }
+  return merged;
+}
+
+/** The `shared (...)` binding of an actor header, e.g. the installer in `shared ({ caller = installer }) actor Main` */
+const SHARED_BINDING = /^shared\s*(?:\([^)]*\))?\s*/;
+
+/**
+ * Keeps the header of the existing actor, but takes the `shared (...)` binding of the new one
+ * when the existing actor has none, since the new declarations may use it
+ */
+function mergeActorHeader(existing: string, incoming: string, result: CanisterMergeResult): string {
+  const existingBinding = SHARED_BINDING.exec(existing)?.[0];
+  const incomingBinding = SHARED_BINDING.exec(incoming)?.[0];
+  if (!incomingBinding || existingBinding?.trim() === incomingBinding.trim()) {
+    return existing;
+  }
+  if (existingBinding) {
+    result.conflicts.push({ name: 'actor', kind: 'actor', existingSignature: existing, newSignature: incoming });
+    return existing;
+  }
+  return `${incomingBinding}${existing}`;
+}
+
+/**
+ * Merges newly generated canister code into the existing canister.
+ * Every existing import, type, stable variable, helper and public function is kept and the actor
+ * keeps its name and header; declarations that only exist in the new code are appended. When both versions
+ * declare the same name with a different signature the existing one is kept and the clash is
+ * reported as a conflict.
+ * @param existingCode Existing canister code
+ * @param newCode New canister code
+ */
+export function mergeCanisterCode(existingCode: string, newCode: string): CanisterMergeResult {
+  const existing = parseMotoko(existingCode);
+  const incoming = parseMotoko(newCode);
+  const result: CanisterMergeResult = { code: '', added: [], conflicts: [] };
+
+  if (!existing.actor) {
+    log('Existing canister has no actor declaration, using new code');
+    result.code = formatMotokoCode(newCode);
+    return result;
+  }
+  if (!incoming.actor) {
+    log('New canister code has no actor declaration, keeping existing code');
+    result.code = formatMotokoCode(existingCode);
+    return result;
+  }
+
+  const prelude = mergeDeclarations(existing.prelude, incoming.prelude, result);
+  const members = mergeDeclarations(existing.actor.declarations, incoming.actor.declarations, result);
+  const header = mergeActorHeader(existing.actor.header, incoming.actor.header, result);
+  log(`Merged canister: ${result.added.length} declaration(s) added, ${result.conflicts.length} conflict(s)`);
+
+  const imports = prelude.filter(d => d.kind === 'import').map(printDeclaration);
+  const otherPrelude = prelude.filter(d => d.kind !== 'import').map(printDeclaration);
+  const sections = [
+    imports.join('\n'),
+    otherPrelude.join('\n\n'),
+    [
+      ...existing.actor.leadingComments,
+      `${header} {\n${members.map(printDeclaration).join('\n\n')}\n}`
+    ].join('\n')
+  ].filter(section => section.trim().length > 0);
+
+  result.code = formatMotokoCode(sections.join('\n\n'));
+  return result;
+}
+
+/**
+ * Describes merge conflicts for display to the user
+ */
+export function describeMergeConflicts(conflicts: MergeConflict[]): string {
+  return conflicts
+    .map(c => `${c.name}: existing "${c.existingSignature}" vs generated "${c.newSignature}"`)
+    .join('\n');
+}
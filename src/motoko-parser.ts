@@ -0,0 +1,265 @@
+import { isCommentToken, MotokoToken, tokenizeMotoko } from './motoko-lexer';
+
+export type MotokoDeclarationKind =
+  | 'import'
+  | 'func'
+  | 'var'
+  | 'let'
+  | 'type'
+  | 'class'
+  | 'object'
+  | 'module'
+  | 'actor'
+  | 'comment'
+  | 'other';
+
+/**
+ * A single top-level or actor-level declaration
+ */
+export interface MotokoDeclaration {
+  kind: MotokoDeclarationKind;
+  name?: string;
+  visibility?: 'public' | 'private' | 'system';
+  /** Modifiers such as stable, shared, query, in source order */
+  modifiers: string[];
+  /** Everything before the body or initializer, whitespace-collapsed, for display */
+  signature: string;
+  /** Whitespace-insensitive form of the signature used for comparisons */
+  signatureKey: string;
+  /** Source text including leading comments, without the terminating `;` */
+  text: string;
+  /** Comment on the same line after the terminating `;` */
+  trailingComment?: string;
+}
+
+export interface MotokoActor {
+  /** Comments directly above the actor declaration */
+  leadingComments: string[];
+  /** Everything before the opening brace, e.g. `persistent actor Counter` */
+  header: string;
+  name?: string;
+  declarations: MotokoDeclaration[];
+}
+
+export interface MotokoProgram {
+  /** Imports and other declarations outside the actor */
+  prelude: MotokoDeclaration[];
+  actor?: MotokoActor;
+}
+
+const MODIFIERS = new Set(['public', 'private', 'system', 'stable', 'flexible', 'transient', 'shared', 'query', 'composite', 'persistent']);
+
+const DECLARATION_KEYWORDS = new Set(['func', 'var', 'let', 'type', 'class', 'object', 'module', 'actor', 'import']);
+
+const DECLARATION_STARTS = new Set([...MODIFIERS, ...DECLARATION_KEYWORDS]);
+
+/**
+ * Finds the index of the token closing the group opened at `openIndex`
+ */
+function findClosing(tokens: MotokoToken[], openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (text === '{' || text === '(' || text === '[') depth++;
+    if (text === '}' || text === ')' || text === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return tokens.length - 1;
+}
+
+function nextCodeIndex(tokens: MotokoToken[], from: number, to: number): number {
+  for (let i = from; i < to; i++) {
+    if (!isCommentToken(tokens[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Splits the tokens in [from, to) into declaration token ranges at depth-0 semicolons,
+ * or after a closing brace that is directly followed by another declaration
+ */
+function splitDeclarations(tokens: MotokoToken[], from: number, to: number): Array<{ start: number; end: number; terminator?: number; trailing?: number }> {
+  const ranges: Array<{ start: number; end: number; terminator?: number; trailing?: number }> = [];
+  let depth = 0;
+  let start = from;
+
+  for (let i = from; i < to; i++) {
+    const token = tokens[i];
+    if (token.text === '{' || token.text === '(' || token.text === '[') depth++;
+    if (token.text === '}' || token.text === ')' || token.text === ']') depth--;
+
+    let boundary = false;
+    let terminator: number | undefined;
+    if (depth === 0 && token.text === ';') {
+      boundary = true;
+      terminator = i;
+    } else if (depth === 0 && token.text === '}') {
+      const next = nextCodeIndex(tokens, i + 1, to);
+      boundary = next !== -1 && DECLARATION_STARTS.has(tokens[next].text);
+    }
+
+    if (boundary) {
+      const end = terminator !== undefined ? i : i + 1;
+      let trailing: number | undefined;
+      if (i + 1 < to && isCommentToken(tokens[i + 1]) && tokens[i + 1].newlinesBefore === 0) {
+        trailing = i + 1;
+        i++;
+      }
+      if (end > start) {
+        ranges.push({ start, end, terminator, trailing });
+      }
+      start = i + 1;
+    }
+  }
+
+  if (start < to) {
+    ranges.push({ start, end: to });
+  }
+  return ranges;
+}
+
+function describeDeclaration(source: string, tokens: MotokoToken[], start: number, end: number): MotokoDeclaration {
+  const first = nextCodeIndex(tokens, start, end);
+  const text = source.slice(tokens[start].start, tokens[end - 1].end);
+
+  if (first === -1) {
+    return { kind: 'comment', modifiers: [], signature: '', signatureKey: '', text };
+  }
+
+  const modifiers: string[] = [];
+  let visibility: MotokoDeclaration['visibility'];
+  let i = first;
+  while (i < end && MODIFIERS.has(tokens[i].text)) {
+    const modifier = tokens[i].text;
+    if (modifier === 'public' || modifier === 'private' || modifier === 'system') {
+      visibility = modifier;
+    } else {
+      modifiers.push(modifier);
+    }
+    i++;
+    // `shared (msg)` and `shared ({ caller })` bind the caller
+    if (modifier === 'shared' && tokens[i]?.text === '(') {
+      const close = findClosing(tokens, i);
+      modifiers[modifiers.length - 1] = `shared ${tokens.slice(i, close + 1).map(t => t.text).join(' ')}`;
+      i = close + 1;
+    }
+  }
+
+  let kind: MotokoDeclarationKind = 'other';
+  let name: string | undefined;
+  if (i < end && DECLARATION_KEYWORDS.has(tokens[i].text)) {
+    kind = tokens[i].text as MotokoDeclarationKind;
+    if (tokens[i].text === 'actor' && tokens[i + 1]?.text === 'class') {
+      kind = 'class';
+      i++;
+    }
+    const nameToken = tokens[i + 1];
+    if (nameToken && nameToken.kind === 'identifier' && i + 1 < end) {
+      name = nameToken.text;
+    }
+  }
+
+  // The signature runs up to the body or initializer
+  let signatureEnd = end;
+  let depth = 0;
+  for (let j = first; j < end; j++) {
+    const t = tokens[j].text;
+    const opensType = [':', 'async', '->'].includes(tokens[j - 1]?.text);
+    if (depth === 0 && kind !== 'type' && (t === '=' || (t === '{' && !opensType && kind !== 'class' && kind !== 'import'))) {
+      signatureEnd = j;
+      break;
+    }
+    if (depth === 0 && kind === 'class' && t === '{' && !opensType) {
+      signatureEnd = j;
+      break;
+    }
+    if (t === '(' || t === '[' || t === '{') depth++;
+    if (t === ')' || t === ']' || t === '}') depth--;
+  }
+
+  const signatureTokens = tokens.slice(first, signatureEnd).filter(t => !isCommentToken(t));
+  const signature = signatureTokens.length > 0
+    ? source.slice(signatureTokens[0].start, signatureTokens[signatureTokens.length - 1].end).replace(/\s+/g, ' ')
+    : '';
+
+  return {
+    kind,
+    name,
+    visibility,
+    modifiers,
+    signature,
+    signatureKey: signatureTokens.map(t => t.text).join(' '),
+    text
+  };
+}
+
+/**
+ * Parses Motoko source into its prelude (imports and other top-level declarations)
+ * and the actor with its declarations. Only declaration structure is parsed; bodies
+ * are kept as source text.
+ */
+export function parseMotoko(source: string): MotokoProgram {
+  const tokens = tokenizeMotoko(source);
+  const program: MotokoProgram = { prelude: [] };
+
+  for (const range of splitDeclarations(tokens, 0, tokens.length)) {
+    const declaration = describeDeclaration(source, tokens, range.start, range.end);
+    if (range.trailing !== undefined) {
+      declaration.trailingComment = tokens[range.trailing].text;
+    }
+
+    const isActor = !program.actor && (declaration.kind === 'actor' ||
+      (declaration.kind === 'class' && /\bactor\s+class\b/.test(declaration.signature)));
+    if (!isActor) {
+      program.prelude.push(declaration);
+      continue;
+    }
+
+    // Locate the actor body and parse its declarations
+    const firstCode = nextCodeIndex(tokens, range.start, range.end);
+    let bodyOpen = -1;
+    let depth = 0;
+    for (let i = firstCode; i < range.end; i++) {
+      const t = tokens[i].text;
+      if (depth === 0 && t === '{' && tokens[i - 1]?.text !== ':') {
+        bodyOpen = i;
+        break;
+      }
+      if (t === '(' || t === '[') depth++;
+      if (t === ')' || t === ']') depth--;
+    }
+    if (bodyOpen === -1) {
+      program.prelude.push(declaration);
+      continue;
+    }
+
+    const bodyClose = findClosing(tokens, bodyOpen);
+
+    const declarations = splitDeclarations(tokens, bodyOpen + 1, bodyClose).map(inner => {
+      const member = describeDeclaration(source, tokens, inner.start, inner.end);
+      if (inner.trailing !== undefined) {
+        member.trailingComment = tokens[inner.trailing].text;
+      }
+      return member;
+    });
+
+    program.actor = {
+      leadingComments: tokens.slice(range.start, firstCode).map(comment => comment.text),
+      header: source.slice(tokens[firstCode].start, tokens[bodyOpen - 1].end).replace(/\s+/g, ' '),
+      name: declaration.name,
+      declarations
+    };
+  }
+
+  return program;
+}
+
+/**
+ * Prints a declaration with its terminating semicolon
+ */
+export function printDeclaration(declaration: MotokoDeclaration): string {
+  const terminated = declaration.kind === 'comment' ? declaration.text : `${declaration.text};`;
+  return declaration.trailingComment ? `${terminated} ${declaration.trailingComment}` : terminated;
+}
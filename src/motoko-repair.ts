@@ -0,0 +1,151 @@
+import { requestStructuredResponse } from './generator';
+import { formatMotokoCode } from './motoko-formatter';
+import { MotokoDiagnostic } from './motoko-diagnostics';
+import { MOTOKO_REPAIR_SCHEMA, ResponseFormat } from './schema';
+import { log } from './logger';
+
+const MOTOKO_REPAIR_FORMAT: ResponseFormat = {
+  name: 'motoko_repair',
+  schema: MOTOKO_REPAIR_SCHEMA
+};
+
+/** Upper bound on model round trips for a single canister */
+export const MAX_REPAIR_ROUNDS = 4;
+
+/** Rounds in a row that may make no progress before the repair gives up */
+const MAX_STALLED_ROUNDS = 2;
+
+/**
+ * The outcome of one compile of a repair attempt
+ */
+export interface RepairRound {
+  round: number;
+  errorCount: number;
+  diagnostics: MotokoDiagnostic[];
+}
+
+export interface RepairResult {
+  /** The code with the fewest errors seen */
+  code: string;
+  fixed: boolean;
+  /** Round 0 is the code as generated */
+  rounds: RepairRound[];
+}
+
+function countErrors(diagnostics: MotokoDiagnostic[]): number {
+  return diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+}
+
+/**
+ * Tells whether two compiles report the same errors. Lines are left out, since a fix
+ * elsewhere in the code moves them.
+ */
+function sameErrors(a: MotokoDiagnostic[], b: MotokoDiagnostic[]): boolean {
+  const key = (diagnostics: MotokoDiagnostic[]) => diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .map(diagnostic => `${diagnostic.code ?? ''} ${diagnostic.message}`)
+    .sort()
+    .join('\n');
+  return key(a) === key(b);
+}
+
+/**
+ * Quotes each error with the line it points at, so the model sees exactly what moc rejected
+ */
+function formatDiagnostics(code: string, diagnostics: MotokoDiagnostic[]): string {
+  const lines = code.split('\n');
+  return diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .map(diagnostic => {
+      const location = `line ${diagnostic.line}, column ${diagnostic.column}`;
+      const source = lines[diagnostic.line - 1];
+      return `- ${location}${diagnostic.code ? ` [${diagnostic.code}]` : ''}: ${diagnostic.message}` +
+        (source !== undefined ? `\n    ${diagnostic.line} | ${source.trim()}` : '');
+    })
+    .join('\n');
+}
+
+function createRepairPrompt(canisterName: string, code: string, diagnostics: MotokoDiagnostic[]): string {
+  return `
+INSTRUCTIONS:
+The Motoko canister "${canisterName}" below failed to compile. moc reported these errors:
+${formatDiagnostics(code, diagnostics)}
+
+Fix exactly these errors. Keep every public function, its name, its signature and its behaviour.
+Keep every stable variable with its name and type; the canister is upgraded in place and they hold its data.
+Do NOT replace functions with stubs or placeholders, and do NOT add new imports.
+
+MOTOKO CODE:
+\`\`\`motoko
+${code}
+\`\`\`
+
+Return a valid JSON object that validates against this JSON schema:
+${JSON.stringify(MOTOKO_REPAIR_SCHEMA, null, 2)}
+
+YOUR RESPONSE MUST BE A VALID JSON OBJECT THAT CAN BE PARSED WITH JSON.parse()
+DO NOT include any text outside the JSON object.
+`;
+}
+
+/**
+ * Feeds moc's errors back to the model until the canister compiles. moc often reports the
+ * next error only once an earlier one is fixed, so a round that fixes errors and reveals as many
+ * new ones counts as progress. Stops early after two rounds in a row without progress.
+ * @param compile Compiles a candidate and returns moc's diagnostics
+ * @param initialDiagnostics The diagnostics of `code` as generated
+ */
+export async function repairMotokoCode(
+  canisterName: string,
+  code: string,
+  initialDiagnostics: MotokoDiagnostic[],
+  compile: (candidate: string) => Promise<MotokoDiagnostic[]>,
+  maxRounds = MAX_REPAIR_ROUNDS
+): Promise<RepairResult> {
+  const rounds: RepairRound[] = [{ round: 0, errorCount: countErrors(initialDiagnostics), diagnostics: initialDiagnostics }];
+  let best = { code, diagnostics: initialDiagnostics, errorCount: rounds[0].errorCount };
+  let stalledRounds = 0;
+
+  for (let round = 1; round <= maxRounds && best.errorCount > 0; round++) {
+    log(`Repair round ${round} for ${canisterName}: ${best.errorCount} error(s) left`);
+    const response = await requestStructuredResponse(
+      createRepairPrompt(canisterName, best.code, best.diagnostics),
+      MOTOKO_REPAIR_FORMAT
+    );
+    const candidate = formatMotokoCode(response.canisterCode);
+    const diagnostics = await compile(candidate);
+    const errorCount = countErrors(diagnostics);
+    rounds.push({ round, errorCount, diagnostics });
+
+    const progressed = errorCount < best.errorCount ||
+      (errorCount === best.errorCount && !sameErrors(diagnostics, best.diagnostics));
+    if (!progressed) {
+      stalledRounds++;
+      log(`Repair round ${round} made no progress (${best.errorCount} -> ${errorCount} error(s))`);
+      if (stalledRounds >= MAX_STALLED_ROUNDS) {
+        log(`Stopping the repair of ${canisterName} after ${stalledRounds} rounds without progress`);
+        break;
+      }
+      continue;
+    }
+    stalledRounds = 0;
+    best = { code: candidate, diagnostics, errorCount };
+  }
+
+  return { code: best.code, fixed: best.errorCount === 0, rounds };
+}
+
+/**
+ * Summarizes a failed repair for the user
+ */
+export function describeRepairFailure(canisterName: string, result: RepairResult): string {
+  const progression = result.rounds.map(round => round.errorCount).join(' -> ');
+  const remaining = result.rounds.reduce((best, round) => round.errorCount < best.errorCount ? round : best);
+  const firstErrors = remaining.diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .slice(0, 3)
+    .map(diagnostic => `line ${diagnostic.line}: ${diagnostic.message.split('\n')[0]}`)
+    .join('; ');
+  return `Canister ${canisterName} still has ${remaining.errorCount} compile error(s) after ${result.rounds.length - 1} repair round(s) ` +
+    `(errors per round: ${progression}). First errors: ${firstErrors}. Nothing was deployed for ${canisterName}.`;
+}
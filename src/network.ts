@@ -0,0 +1,80 @@
+import { DeploySettings, DfxNetworkConfig } from './config';
+
+/** The replica dfx starts on this machine */
+export const LOCAL_NETWORK = 'local';
+
+/**
+ * A network canisters can be deployed to, and where client code reaches it
+ */
+export interface NetworkTarget {
+  name: string;
+  /** URL the client's HttpAgent talks to */
+  host: string;
+  /** Whether the network runs on this machine, so its replica is not mainnet */
+  local: boolean;
+  /** Set for custom networks; dfx knows `local` and `ic` without one */
+  config?: DfxNetworkConfig;
+}
+
+/** Mainnet, which dfx defines itself */
+const IC_NETWORK: NetworkTarget = { name: 'ic', host: 'https://icp-api.io', local: false };
+
+function isLocalHost(url: string): boolean {
+  try {
+    return ['127.0.0.1', 'localhost', '[::1]', '0.0.0.0'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the URL of a local replica listening on a port
+ */
+export function getLocalHost(port: number): string {
+  return `http://127.0.0.1:${port}`;
+}
+
+/**
+ * Lists the networks that can be deployed to: `local`, `ic` and the custom ones from the
+ * settings that have at least one provider
+ */
+export function listNetworks(settings: DeploySettings): NetworkTarget[] {
+  const custom = Object.entries(settings.networks)
+    .filter(([name, config]) => name !== LOCAL_NETWORK && name !== IC_NETWORK.name && config.providers?.length > 0)
+    .map(([name, config]) => ({
+      name,
+      host: config.providers[0],
+      local: isLocalHost(config.providers[0]),
+      config
+    }));
+  const local = { name: LOCAL_NETWORK, host: getLocalHost(settings.replicaPort), local: true };
+  return [local, IC_NETWORK, ...custom];
+}
+
+/**
+ * Looks up a network by name
+ */
+export function resolveNetwork(settings: DeploySettings, name = settings.network): NetworkTarget {
+  const network = listNetworks(settings).find(candidate => candidate.name === name);
+  if (!network) {
+    throw new Error(`Unknown network "${name}". Define it with at least one provider in icpilot.deploy.networks, or choose local or ic.`);
+  }
+  return network;
+}
+
+/**
+ * Builds the `networks` section of dfx.json. `local` is bound to the local replica's
+ * address; custom networks are listed by their providers.
+ * @param localPort The port of the local replica, when it differs from the configured one
+ */
+export function getDfxNetworks(settings: DeploySettings, localPort = settings.replicaPort): Record<string, object> {
+  const networks: Record<string, object> = {};
+  for (const network of listNetworks(settings)) {
+    if (network.name === LOCAL_NETWORK) {
+      networks[network.name] = { bind: `127.0.0.1:${localPort}`, type: 'ephemeral' };
+    } else if (network.config) {
+      networks[network.name] = { type: 'persistent', ...network.config };
+    }
+  }
+  return networks;
+}
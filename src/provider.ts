@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { NetworkTarget } from './network';
 
 interface FileInfo {
     label: string;
@@ -22,7 +23,7 @@ export async function listJavaScriptFiles(workspaceFolder: vscode.WorkspaceFolde
     
     // Get all JS/TS files in the workspace
     const jsFiles = await vscode.workspace.findFiles(
-        new vscode.RelativePattern(workspaceFolder, '**/*.{js,ts}'),
+        new vscode.RelativePattern(workspaceFolder, '**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}'),
         new vscode.RelativePattern(workspaceFolder, '**/node_modules/**')
     );
     
@@ -109,3 +110,24 @@ export async function promptForFunctionalityFocus(): Promise<string | undefined>
         ignoreFocusOut: true
     });
 }
+
+/**
+ * Prompts the user to pick the network canisters are deployed to
+ * @returns The name of the picked network, or undefined if cancelled
+ */
+export async function promptForNetwork(networks: NetworkTarget[], current: string): Promise<string | undefined> {
+    const items = networks.map(network => ({
+        label: network.name,
+        description: network.host,
+        detail: network.local ? 'Runs on this machine' : 'Remote network; deploying may use cycles',
+        picked: network.name === current
+    }));
+    // Keep the current network on top so Enter keeps it
+    items.sort((a, b) => Number(b.picked) - Number(a.picked));
+
+    const selection = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select the network to deploy canisters to (current: ${current})`,
+        ignoreFocusOut: true
+    });
+    return selection?.label;
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { readDeployments } from './client-config';
+import { getDeploySettings } from './config';
+import {
+  cleanDfxReplica,
+  getIcProjectDir,
+  getReplicaStatus,
+  startDfxReplica,
+  stopDfxReplica
+} from './deployer';
+import { showErrorWithLogs, startPhase } from './logger';
+import { LOCAL_NETWORK } from './network';
+
+/** How often the status bar looks at the replica, which may stop on its own */
+const REFRESH_INTERVAL_MS = 30000;
+
+let statusBarItem: vscode.StatusBarItem | undefined;
+
+function getProjectPath(): string | undefined {
+  return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+function describeState(state: 'running' | 'stopped' | 'external'): string {
+  switch (state) {
+    case 'running':
+      return 'running (started by ICPilot)';
+    case 'external':
+      return 'port in use by a replica or process ICPilot did not start';
+    default:
+      return 'stopped';
+  }
+}
+
+/**
+ * Updates the status bar item from the replica, the selected network and the recorded deployments
+ */
+export async function refreshReplicaStatus(): Promise<void> {
+  const projectPath = getProjectPath();
+  if (!statusBarItem) {
+    return;
+  }
+  if (!projectPath) {
+    statusBarItem.hide();
+    return;
+  }
+
+  const network = getDeploySettings().network;
+  const canisters = Object.entries((await readDeployments(projectPath))[network]?.canisterIds ?? {});
+  const canisterText = canisters.length === 1
+    ? canisters[0][1]
+    : canisters.length > 1 ? `${canisters.length} canisters` : 'no canisters';
+  const tooltip = [`Network: ${network}`];
+
+  if (network === LOCAL_NETWORK) {
+    const status = await getReplicaStatus(getIcProjectDir(projectPath));
+    const icon = status.state === 'running' ? '$(vm-running)' : status.state === 'external' ? '$(vm-active)' : '$(vm-outline)';
+    statusBarItem.text = `${icon} ICP ${network}:${status.port} · ${canisterText}`;
+    tooltip.push(`Local replica: ${describeState(status.state)}, port ${status.port}`);
+  } else {
+    statusBarItem.text = `$(cloud) ICP ${network} · ${canisterText}`;
+  }
+
+  tooltip.push(...canisters.map(([name, id]) => `${name}: ${id}`), '', 'Click for replica actions');
+  statusBarItem.tooltip = tooltip.join('\n');
+  statusBarItem.show();
+}
+
+/**
+ * Runs a replica action with a progress notification, reporting failures and refreshing the status bar
+ */
+async function runReplicaAction(title: string, action: (icProjectDir: string) => Promise<string | undefined>): Promise<void> {
+  const projectPath = getProjectPath();
+  if (!projectPath) {
+    vscode.window.showErrorMessage('No workspace folder open!');
+    return;
+  }
+  const icProjectDir = getIcProjectDir(projectPath);
+  await fs.promises.mkdir(icProjectDir, { recursive: true });
+
+  startPhase(title.replace(/\.\.\.$/, ''));
+  try {
+    const message = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: false },
+      () => action(icProjectDir)
+    );
+    if (message) {
+      vscode.window.showInformationMessage(message);
+    }
+  } catch (error) {
+    showErrorWithLogs(error instanceof Error ? error.message : String(error));
+  } finally {
+    await refreshReplicaStatus();
+  }
+}
+
+async function startReplica(icProjectDir: string): Promise<string> {
+  const port = await startDfxReplica(icProjectDir);
+  return `The local replica is running on port ${port}.`;
+}
+
+async function stopReplica(icProjectDir: string): Promise<string> {
+  if (await stopDfxReplica(icProjectDir)) {
+    return 'The local replica was stopped.';
+  }
+  if ((await getReplicaStatus(icProjectDir)).state === 'external') {
+    throw new Error('The local replica was not started by ICPilot, so it was left running. Stop it with "dfx stop" yourself.');
+  }
+  return 'No local replica started by ICPilot is running.';
+}
+
+/**
+ * Offers the replica actions that make sense in its current state
+ */
+async function showReplicaActions(): Promise<void> {
+  const projectPath = getProjectPath();
+  if (!projectPath) {
+    return;
+  }
+  const status = await getReplicaStatus(getIcProjectDir(projectPath));
+  const network = getDeploySettings().network;
+  const canisters = Object.entries((await readDeployments(projectPath))[network]?.canisterIds ?? {});
+
+  const actions: { label: string; command: string }[] = [];
+  if (status.state === 'stopped') {
+    actions.push({ label: '$(play) Start Local Replica', command: 'icpilot-web2-to-web3.startReplica' });
+  }
+  if (status.state === 'running') {
+    actions.push(
+      { label: '$(debug-stop) Stop Local Replica', command: 'icpilot-web2-to-web3.stopReplica' },
+      { label: '$(debug-restart) Restart Local Replica', command: 'icpilot-web2-to-web3.restartReplica' }
+    );
+  }
+  if (status.state !== 'external') {
+    actions.push({ label: '$(trash) Clean Local Replica State', command: 'icpilot-web2-to-web3.cleanReplica' });
+  }
+  if (canisters.length > 0) {
+    actions.push({ label: '$(copy) Copy Canister ID', command: 'copyCanisterId' });
+  }
+  actions.push(
+    { label: '$(globe) Select Deployment Network', command: 'icpilot-web2-to-web3.selectNetwork' },
+    { label: '$(tools) Check DFX', command: 'icpilot-web2-to-web3.checkDfx' },
+    { label: '$(output) Show Logs', command: 'icpilot-web2-to-web3.showLogs' }
+  );
+
+  const selection = await vscode.window.showQuickPick(actions, {
+    placeHolder: `ICP ${network}: local replica ${describeState(status.state)}`
+  });
+  if (!selection) {
+    return;
+  }
+  if (selection.command !== 'copyCanisterId') {
+    await vscode.commands.executeCommand(selection.command);
+    return;
+  }
+
+  const canister = canisters.length === 1
+    ? canisters[0]
+    : (await vscode.window.showQuickPick(
+      canisters.map(([name, id]) => ({ label: name, description: id, entry: [name, id] as [string, string] })),
+      { placeHolder: 'Select the canister whose ID to copy' }
+    ))?.entry;
+  if (canister) {
+    await vscode.env.clipboard.writeText(canister[1]);
+    vscode.window.showInformationMessage(`Copied the ID of ${canister[0]}: ${canister[1]}`);
+  }
+}
+
+/**
+ * Registers the replica lifecycle commands and the status bar item showing the replica,
+ * the selected network and the deployed canisters
+ */
+export function registerReplicaCommands(context: vscode.ExtensionContext): void {
+  statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  statusBarItem.command = 'icpilot-web2-to-web3.replicaActions';
+  context.subscriptions.push(statusBarItem);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('icpilot-web2-to-web3.startReplica', () =>
+      runReplicaAction('Starting local replica...', startReplica)
+    ),
+    vscode.commands.registerCommand('icpilot-web2-to-web3.stopReplica', () =>
+      runReplicaAction('Stopping local replica...', stopReplica)
+    ),
+    vscode.commands.registerCommand('icpilot-web2-to-web3.restartReplica', () =>
+      runReplicaAction('Restarting local replica...', async icProjectDir => {
+        await stopReplica(icProjectDir);
+        return startReplica(icProjectDir);
+      })
+    ),
+    vscode.commands.registerCommand('icpilot-web2-to-web3.cleanReplica', async () => {
+      const choice = await vscode.window.showWarningMessage(
+        'Clean the local replica state?',
+        { modal: true, detail: 'The replica is stopped and every canister deployed to the local network is deleted, including its data. Canisters get new IDs on the next deploy.' },
+        'Clean'
+      );
+      if (choice === 'Clean') {
+        await runReplicaAction('Cleaning local replica state...', async icProjectDir => {
+          await cleanDfxReplica(icProjectDir);
+          return 'The local replica state was deleted. Start the replica or convert again to redeploy.';
+        });
+      }
+    }),
+    vscode.commands.registerCommand('icpilot-web2-to-web3.replicaActions', showReplicaActions),
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('icpilot.deploy')) {
+        refreshReplicaStatus();
+      }
+    })
+  );
+
+  const timer = setInterval(() => refreshReplicaStatus(), REFRESH_INTERVAL_MS);
+  context.subscriptions.push({ dispose: () => clearInterval(timer) });
+  refreshReplicaStatus();
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { applyHunks, computeLineDiff, DiffHunk } from './diff';
+
+const PREVIEW_SCHEME = 'icpilot-preview';
+
+/**
+ * A rewrite of a single file that has to be confirmed before it is written
+ */
+export interface ProposedChange {
+  path: string;
+  /** Current content, or an empty string for a file that does not exist yet */
+  original: string;
+  proposed: string;
+}
+
+/**
+ * Serves the in-memory original and proposed versions shown in the diff editor
+ */
+class PreviewContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  set(uri: vscode.Uri, content: string): void {
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+  }
+
+  clear(): void {
+    this.contents.clear();
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+}
+
+const previewProvider = new PreviewContentProvider();
+
+/**
+ * Registers the content provider used by the review diff editors
+ */
+export function registerReviewProvider(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider)
+  );
+}
+
+function previewUri(side: 'original' | 'proposed', filePath: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${side}${vscode.Uri.file(filePath).path}` });
+}
+
+function describeHunk(hunk: DiffHunk, index: number): vscode.QuickPickItem & { index: number } {
+  const firstLine = hunk.removed.length > 0
+    ? `Lines ${hunk.oldStart + 1}-${hunk.oldStart + hunk.removed.length}`
+    : `After line ${hunk.oldStart}`;
+  const sample = (hunk.added[0] ?? hunk.removed[0] ?? '').trim();
+  return {
+    index,
+    label: `${firstLine}: -${hunk.removed.length} +${hunk.added.length}`,
+    detail: sample.length > 80 ? `${sample.substring(0, 80)}...` : sample,
+    picked: true
+  };
+}
+
+/**
+ * Shows the diff for one file and asks what to keep
+ * @returns The content to write, null to leave the file untouched, or undefined if the review was cancelled
+ */
+async function reviewChange(change: ProposedChange, position: string): Promise<string | null | undefined> {
+  const hunks = computeLineDiff(change.original, change.proposed);
+  if (hunks.length === 0) {
+    return null;
+  }
+
+  const left = previewUri('original', change.path);
+  const right = previewUri('proposed', change.path);
+  previewProvider.set(left, change.original);
+  previewProvider.set(right, change.proposed);
+
+  const fileName = path.basename(change.path);
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    left,
+    right,
+    `${fileName}: Current ↔ ICPilot (${position})`,
+    { preview: true }
+  );
+
+  const acceptAll = `$(check) Accept all ${hunks.length} change(s)`;
+  const chooseHunks = '$(list-selection) Choose changes...';
+  const reject = '$(close) Reject file';
+  const cancel = '$(circle-slash) Cancel conversion';
+  const decision = await vscode.window.showQuickPick([acceptAll, chooseHunks, reject, cancel], {
+    placeHolder: `Review ${vscode.workspace.asRelativePath(change.path)} (${position})`,
+    ignoreFocusOut: true
+  });
+
+  if (!decision || decision === cancel) {
+    return undefined;
+  }
+  if (decision === reject) {
+    return null;
+  }
+  if (decision === acceptAll) {
+    return change.proposed;
+  }
+
+  const selected = await vscode.window.showQuickPick(hunks.map(describeHunk), {
+    placeHolder: `Select the changes to apply to ${fileName}`,
+    canPickMany: true,
+    ignoreFocusOut: true
+  });
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.length === 0) {
+    return null;
+  }
+  return applyHunks(change.original, hunks, new Set(selected.map(item => item.index)));
+}
+
+/**
+ * Walks through every proposed change with a side-by-side diff and lets the user accept
+ * or reject each file, or pick individual hunks. Nothing is written here.
+ * @returns The accepted content per file path (rejected files are absent), or undefined if cancelled
+ */
+export async function reviewChanges(changes: ProposedChange[]): Promise<Map<string, string> | undefined> {
+  const accepted = new Map<string, string>();
+
+  try {
+    for (let i = 0; i < changes.length; i++) {
+      const result = await reviewChange(changes[i], `${i + 1}/${changes.length}`);
+      if (result === undefined) {
+        return undefined;
+      }
+      if (result !== null) {
+        accepted.set(changes[i].path, result);
+      }
+    }
+  } finally {
+    previewProvider.clear();
+    // The diffs open as a single preview tab; close it if it is still showing
+    if (vscode.window.activeTextEditor?.document.uri.scheme === PREVIEW_SCHEME) {
+      await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    }
+  }
+
+  return accepted;
+}
@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as recast from 'recast';
+import { addNamedImports, toModuleSpecifier } from './candid';
+import { ExpressRoute, parseJavaScript } from './express-routes';
+
+const fsPromises = fs.promises;
+
+/**
+ * The routes a canister took over and the module client code calls them through
+ */
+export interface RouteModule {
+  canisterName: string;
+  routes: ExpressRoute[];
+  /** Path of the generated `<name>.routes.js` */
+  modulePath: string;
+}
+
+/**
+ * Gets the path of the route client of a canister, next to its generated declarations
+ */
+export function getRouteModulePath(declarationsDir: string, canisterName: string): string {
+  return path.join(declarationsDir, `${canisterName}.routes.js`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the pattern matching the request paths of a route, capturing its parameters
+ */
+function getRoutePattern(routePath: string): RegExp {
+  const segments = routePath.replace(/\/$/, '').split('/').map(segment =>
+    segment.startsWith(':') ? '([^/]+)' : escapeRegExp(segment)
+  );
+  return new RegExp(`^${segments.join('/') || ''}/?$`);
+}
+
+/**
+ * Renders the route client: `canisterFetch` and `canisterAxios` behave like `fetch` and
+ * `axios` for the converted routes, calling the canister and turning rejections of the form
+ * `<status>: <body>` back into error responses
+ */
+function renderRouteModule(module: RouteModule, configImport: string): string {
+  const routes = module.routes.map(route => {
+    const args = [...route.params.map((_, index) => `params[${index}]`), ...(route.hasBody ? ['body'] : [])];
+    return `  { method: ${JSON.stringify(route.method)}, pattern: ${getRoutePattern(route.path)}, status: ${route.status}, ` +
+      `call: (params, body) => getActor().${route.methodName}(${args.join(', ')}) }`;
+  });
+  return `// Generated by ICPilot from the routes converted into ${module.canisterName}. Do not edit; convert again instead.
+import { Actor } from "@dfinity/agent";
+import { idlFactory } from "./${module.canisterName}.did.js";
+import { createAgent, getCanisterId } from "${configImport}";
+
+let actor;
+
+function getActor() {
+  if (!actor) {
+    actor = Actor.createActor(idlFactory, { agent: createAgent(), canisterId: getCanisterId(${JSON.stringify(module.canisterName)}) });
+  }
+  return actor;
+}
+
+const routes = [
+${routes.join(',\n')}
+];
+
+function toText(data) {
+  if (data === undefined || data === null) {
+    return "";
+  }
+  return typeof data === "string" ? data : JSON.stringify(data);
+}
+
+function parseBody(text) {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return text;
+  }
+}
+
+// Handlers reject with "<status>: <body>"; the agent wraps that in its own message
+function readRejection(error) {
+  const match = /(?:^|\\s)([1-5]\\d\\d): (.*)$/m.exec(String((error && error.message) || error));
+  return match ? { status: Number(match[1]), text: match[2].trim() } : undefined;
+}
+
+/**
+ * Calls the canister method of a route
+ * @returns The status and body text, or undefined if no converted route matches
+ */
+export async function callRoute(method, url, data) {
+  const pathname = new URL(String(url), "http://localhost").pathname;
+  const route = routes.find(candidate => candidate.method === method.toUpperCase() && candidate.pattern.test(pathname));
+  if (!route) {
+    return undefined;
+  }
+  const params = route.pattern.exec(pathname).slice(1).map(decodeURIComponent);
+  try {
+    return { status: route.status, text: await route.call(params, toText(data)) };
+  } catch (error) {
+    const rejection = readRejection(error);
+    if (!rejection) {
+      throw error;
+    }
+    return rejection;
+  }
+}
+
+/**
+ * Works like \`fetch\`, calling the canister for converted routes and the network otherwise
+ */
+export async function canisterFetch(input, init = {}) {
+  const url = typeof input === "string" || input instanceof URL ? input : input.url;
+  const method = init.method || (typeof input === "object" && input.method) || "GET";
+  const result = await callRoute(method, url, init.body);
+  if (!result) {
+    return fetch(input, init);
+  }
+  return {
+    ok: result.status < 400,
+    status: result.status,
+    statusText: "",
+    url: String(url),
+    headers: new Headers({ "content-type": "application/json" }),
+    json: async () => JSON.parse(result.text),
+    text: async () => result.text
+  };
+}
+
+async function request(config) {
+  const result = await callRoute(config.method || "get", config.url, config.data);
+  if (!result) {
+    throw new Error(\`No converted route for \${(config.method || "get").toUpperCase()} \${config.url}\`);
+  }
+  const response = { data: parseBody(result.text), status: result.status, statusText: "", headers: {}, config };
+  if (result.status >= 400) {
+    throw Object.assign(new Error(\`Request failed with status code \${result.status}\`), { response, config });
+  }
+  return response;
+}
+
+/**
+ * Works like \`axios\` for converted routes; errors carry \`response\` as axios errors do
+ */
+export const canisterAxios = {
+  request,
+  get: (url, config = {}) => request({ ...config, url, method: "get" }),
+  delete: (url, config = {}) => request({ ...config, url, method: "delete" }),
+  post: (url, data, config = {}) => request({ ...config, url, data, method: "post" }),
+  put: (url, data, config = {}) => request({ ...config, url, data, method: "put" }),
+  patch: (url, data, config = {}) => request({ ...config, url, data, method: "patch" })
+};
+`;
+}
+
+/**
+ * Renders the type declarations of the route client
+ */
+function renderRouteModuleTypes(): string {
+  return `// Generated by ICPilot. Do not edit.
+export interface CanisterAxiosResponse<T = any> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  config: CanisterAxiosConfig;
+}
+
+export interface CanisterAxiosConfig {
+  url?: string;
+  method?: string;
+  data?: unknown;
+  [key: string]: unknown;
+}
+
+export declare function callRoute(method: string, url: string | URL, data?: unknown): Promise<{ status: number; text: string } | undefined>;
+export declare function canisterFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+export declare const canisterAxios: {
+  request<T = any>(config: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+  get<T = any>(url: string, config?: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+  delete<T = any>(url: string, config?: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+  post<T = any>(url: string, data?: unknown, config?: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+  put<T = any>(url: string, data?: unknown, config?: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+  patch<T = any>(url: string, data?: unknown, config?: CanisterAxiosConfig): Promise<CanisterAxiosResponse<T>>;
+};
+`;
+}
+
+/**
+ * Writes the route client of a canister and its type declarations
+ * @param clientConfigPath Path of the generated client config module
+ */
+export async function writeRouteModule(module: RouteModule, clientConfigPath: string): Promise<void> {
+  await fsPromises.mkdir(path.dirname(module.modulePath), { recursive: true });
+  await fsPromises.writeFile(module.modulePath, renderRouteModule(module, toModuleSpecifier(module.modulePath, clientConfigPath)));
+  await fsPromises.writeFile(module.modulePath.replace(/\.js$/, '.d.ts'), renderRouteModuleTypes());
+}
+
+/** Stands for the dynamic parts of a URL, such as a base URL or an ID */
+const DYNAMIC = '\u0000';
+
+/**
+ * Reads the static shape of a URL expression, with its dynamic parts replaced by a placeholder
+ */
+function readUrlShape(node: any): string | undefined {
+  switch (node?.type) {
+    case 'Literal':
+    case 'StringLiteral':
+      return typeof node.value === 'string' ? node.value : undefined;
+    case 'TemplateLiteral':
+      return node.quasis.map((quasi: any) => quasi.value.cooked).join(DYNAMIC);
+    case 'BinaryExpression':
+      if (node.operator === '+') {
+        return (readUrlShape(node.left) ?? DYNAMIC) + (readUrlShape(node.right) ?? DYNAMIC);
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Finds the converted route a request goes to
+ */
+function findRoute(modules: RouteModule[], method: string, url: any): RouteModule | undefined {
+  let shape = readUrlShape(url);
+  if (shape === undefined) {
+    return undefined;
+  }
+  // Drop the origin, spelled out or as a base URL variable, and the query
+  shape = shape.replace(/^[a-z]+:\/\/[^/]*/i, '').replace(new RegExp(`^${DYNAMIC}+(?=/)`), '').replace(/[?#].*$/, '');
+  if (!shape.startsWith('/')) {
+    return undefined;
+  }
+  const pathname = shape.split(DYNAMIC).join('x');
+  return modules.find(module => module.routes.some(route =>
+    route.method === method.toUpperCase() && getRoutePattern(route.path).test(pathname)
+  ));
+}
+
+/**
+ * Reads the method of a `fetch` call from its options, GET when there are none
+ */
+function readFetchMethod(options: any): string | undefined {
+  if (!options) {
+    return 'GET';
+  }
+  if (options.type !== 'ObjectExpression') {
+    return undefined;
+  }
+  const property = options.properties.find((p: any) => ['Property', 'ObjectProperty'].includes(p.type) && !p.computed && (p.key.name ?? p.key.value) === 'method');
+  if (!property) {
+    return 'GET';
+  }
+  return ['Literal', 'StringLiteral'].includes(property.value.type) && typeof property.value.value === 'string' ? property.value.value : undefined;
+}
+
+/**
+ * Points the `fetch` and `axios` calls of client code at the converted routes to the route
+ * clients, leaving calls to other URLs alone
+ * @param filePath Path of the client file, to import the route clients relative to it
+ * @returns The rewritten code; unchanged if no call goes to a converted route
+ */
+export function rewriteRouteCalls(code: string, filePath: string, modules: RouteModule[]): string {
+  let ast: any;
+  try {
+    ast = parseJavaScript(code);
+  } catch {
+    return code;
+  }
+  const imports = new Map<RouteModule, Set<string>>();
+  const references: { identifier: any; module: RouteModule }[] = [];
+  const b = recast.types.builders;
+  const use = (module: RouteModule, name: string) => {
+    imports.set(module, (imports.get(module) ?? new Set()).add(name));
+    const identifier = b.identifier(name);
+    references.push({ identifier, module });
+    return identifier;
+  };
+
+  recast.visit(ast, {
+    visitCallExpression(nodePath: any) {
+      const node = nodePath.node;
+      const callee = node.callee;
+      const isFetch = (callee.type === 'Identifier' && callee.name === 'fetch') ||
+        (callee.type === 'MemberExpression' && !callee.computed && callee.property.name === 'fetch' &&
+          callee.object.type === 'Identifier' && ['window', 'globalThis'].includes(callee.object.name));
+      if (isFetch) {
+        const method = readFetchMethod(node.arguments[1]);
+        const module = method ? findRoute(modules, method, node.arguments[0]) : undefined;
+        if (module) {
+          node.callee = use(module, 'canisterFetch');
+        }
+      } else if (callee.type === 'MemberExpression' && !callee.computed && callee.object.type === 'Identifier' &&
+        callee.object.name === 'axios' && ['get', 'post', 'put', 'patch', 'delete'].includes(callee.property.name)) {
+        const module = findRoute(modules, callee.property.name, node.arguments[0]);
+        if (module) {
+          node.callee = b.memberExpression(use(module, 'canisterAxios'), b.identifier(callee.property.name));
+        }
+      }
+      this.traverse(nodePath);
+    }
+  });
+
+  if (imports.size === 0) {
+    return code;
+  }
+  // Every route client exports the same names, so with several each is imported under an alias
+  const aliased = imports.size > 1;
+  const aliasOf = (module: RouteModule, name: string) =>
+    `${module.canisterName.charAt(0).toLowerCase()}${module.canisterName.slice(1)}${name.replace(/^canister/, '')}`;
+  if (aliased) {
+    references.forEach(reference => {
+      reference.identifier.name = aliasOf(reference.module, reference.identifier.name);
+    });
+  }
+  let rewritten = recast.print(ast).code;
+  for (const [module, names] of imports) {
+    const specifiers = [...names].map(name => aliased ? `${name} as ${aliasOf(module, name)}` : name);
+    rewritten = addNamedImports(rewritten, specifiers, toModuleSpecifier(filePath, module.modulePath));
+  }
+  return rewritten;
+}
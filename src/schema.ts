@@ -0,0 +1,204 @@
+/**
+ * The subset of JSON Schema used to describe model responses
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minLength?: number;
+  pattern?: string;
+}
+
+/**
+ * A single validation failure, located by a JSON path such as `$.canisterName`
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * A named schema requested from a provider's JSON mode
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Schema of the canister returned by the model for every conversion
+ */
+export const CONVERSION_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    canisterCode: {
+      type: 'string',
+      minLength: 1,
+      description: 'Complete Motoko source code of the canister'
+    },
+    canisterName: {
+      type: 'string',
+      pattern: '^[A-Za-z][A-Za-z0-9_]*$',
+      description: 'Name of the canister, a valid Motoko identifier'
+    }
+  },
+  required: ['canisterCode', 'canisterName']
+};
+
+/**
+ * Schema of a canister repaired after moc rejected it
+ */
+export const MOTOKO_REPAIR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    canisterCode: {
+      type: 'string',
+      minLength: 1,
+      description: 'The complete corrected Motoko source code of the canister'
+    }
+  },
+  required: ['canisterCode']
+};
+
+/**
+ * Schema of a client file rewritten to call several canisters
+ */
+export const CLIENT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    modifiedWeb2Code: {
+      type: 'string',
+      minLength: 1,
+      description: 'The transformed JavaScript/TypeScript code that calls the canisters through @dfinity/agent'
+    }
+  },
+  required: ['modifiedWeb2Code']
+};
+
+/**
+ * Schema of a route handler the rule-based converter could not translate
+ */
+export const ROUTE_HANDLER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    canisterMethod: {
+      type: 'string',
+      minLength: 1,
+      description: 'The complete Motoko public function implementing the route, with exactly the given header'
+    },
+    stateDeclarations: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description: 'Additional actor declarations the method needs, such as stable variables or private helper functions'
+    }
+  },
+  required: ['canisterMethod', 'stateDeclarations']
+};
+
+/**
+ * Schema of a proposed split of the analyzed code into canisters
+ */
+export const CANISTER_PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    canisters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            pattern: '^[A-Za-z][A-Za-z0-9_]*$',
+            description: 'Name of the canister, a valid Motoko identifier such as UserCanister'
+          },
+          description: {
+            type: 'string',
+            description: 'The domain the canister is responsible for'
+          },
+          functions: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+            description: 'Names of the analyzed functions the canister implements'
+          },
+          files: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+            description: 'Workspace-relative paths of the files that call the canister'
+          }
+        },
+        required: ['name', 'description', 'functions', 'files']
+      }
+    }
+  },
+  required: ['canisters']
+};
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: any, type: JsonSchema['type']): boolean {
+  const actual = describeType(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+/**
+ * Validates a value against a schema and returns every failure found
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema, path = '$'): SchemaError[] {
+  if (!matchesType(value, schema.type)) {
+    return [{ path, message: `expected ${schema.type}, got ${describeType(value)}` }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (schema.type === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} character(s) long` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `"${value}" does not match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (schema.type === 'object') {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push({ path: `${path}.${key}`, message: 'required property is missing' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (key in value) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    value.forEach((item: any, index: number) => {
+      errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Formats validation failures as a bullet list suitable for a repair prompt
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(error => `- ${error.path}: ${error.message}`).join('\n');
+}
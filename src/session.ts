@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CanisterFallback } from './deployer';
+import { log } from './logger';
+import { LOCAL_NETWORK } from './network';
+
+const fsPromises = fs.promises;
+
+/**
+ * A file touched by a conversion, with its content before and after
+ */
+export interface SessionFile {
+  path: string;
+  /** Content before the conversion, or null if the file did not exist */
+  original: string | null;
+  /** Content written by the conversion */
+  generated?: string;
+}
+
+/**
+ * A canister deployed by a conversion
+ */
+export interface SessionCanister {
+  name: string;
+  id?: string;
+  /** Whether the canister was created by this session rather than upgraded */
+  created?: boolean;
+  /** SHA-256 of the deployed wasm module */
+  wasmHash?: string;
+  /** Copy of the deployed wasm module, kept so a later undo can reinstall it */
+  wasmPath?: string;
+  /** Set when fallback code was deployed instead of the reviewed source */
+  fallback?: CanisterFallback;
+  /** Public functions of the reviewed source that the deployed interface lacks */
+  missingFunctions?: string[];
+}
+
+/**
+ * Everything a single run of the convert command changed
+ */
+export interface ConversionSession {
+  id: string;
+  startedAt: string;
+  completedAt?: string;
+  undoneAt?: string;
+  /** Network the canisters were deployed to; absent in sessions that predate network selection */
+  network?: string;
+  canisters: SessionCanister[];
+  files: SessionFile[];
+}
+
+/**
+ * Gets the directory all sessions of a workspace are stored in
+ */
+export function getSessionsDir(projectPath: string): string {
+  return path.join(projectPath, '.icpilot', 'sessions');
+}
+
+function getSessionDir(projectPath: string, sessionId: string): string {
+  return path.join(getSessionsDir(projectPath), sessionId);
+}
+
+/**
+ * Starts a new session. It is only written to disk by the first save.
+ */
+export function createSession(network: string): ConversionSession {
+  const startedAt = new Date().toISOString();
+  return {
+    // Timestamp ids sort chronologically
+    id: startedAt.replace(/[:.]/g, '-'),
+    startedAt,
+    network,
+    canisters: [],
+    files: []
+  };
+}
+
+/**
+ * Saves the session metadata
+ */
+export async function saveSession(projectPath: string, session: ConversionSession): Promise<void> {
+  const sessionDir = getSessionDir(projectPath, session.id);
+  await fsPromises.mkdir(sessionDir, { recursive: true });
+  await fsPromises.writeFile(path.join(sessionDir, 'session.json'), JSON.stringify(session, null, 2));
+}
+
+/**
+ * Records the content of a file before the conversion changes it. Only the first snapshot
+ * of a file is kept, so it always holds the pre-conversion state.
+ * @param content The current content, when it differs from disk (e.g. an unsaved editor); read from disk otherwise
+ */
+export function recordOriginal(session: ConversionSession, filePath: string, content?: string): void {
+  if (session.files.some(file => file.path === filePath)) {
+    return;
+  }
+  const original = content ?? (fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null);
+  session.files.push({ path: filePath, original });
+}
+
+/**
+ * Records the content the conversion wrote to a file. A file without an earlier
+ * snapshot is treated as newly created.
+ */
+export function recordGenerated(session: ConversionSession, filePath: string, content: string): void {
+  const file = session.files.find(f => f.path === filePath);
+  if (file) {
+    file.generated = content;
+  } else {
+    session.files.push({ path: filePath, original: null, generated: content });
+  }
+}
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(dir, entry.name));
+}
+
+/**
+ * Records the files currently in a directory that a tool is about to regenerate
+ */
+export function recordOriginalDirectory(session: ConversionSession, dir: string): void {
+  listFiles(dir).forEach(file => recordOriginal(session, file));
+}
+
+/**
+ * Records the files a tool wrote to a directory
+ */
+export function recordGeneratedDirectory(session: ConversionSession, dir: string): void {
+  listFiles(dir).forEach(file => recordGenerated(session, file, fs.readFileSync(file, 'utf8')));
+}
+
+/**
+ * Gets the session's record of a canister, adding one if needed
+ */
+export function getSessionCanister(session: ConversionSession, canisterName: string): SessionCanister {
+  let canister = session.canisters.find(c => c.name === canisterName);
+  if (!canister) {
+    canister = { name: canisterName };
+    session.canisters.push(canister);
+  }
+  return canister;
+}
+
+/**
+ * Keeps a copy of a deployed wasm module in the session and records its hash
+ */
+export async function recordDeployedModule(
+  projectPath: string,
+  session: ConversionSession,
+  canisterName: string,
+  wasmFile: string
+): Promise<void> {
+  if (!fs.existsSync(wasmFile)) {
+    log(`No built module found at ${wasmFile}, session will not be able to reinstall it`);
+    return;
+  }
+  const wasm = await fsPromises.readFile(wasmFile);
+  const target = path.join(getSessionDir(projectPath, session.id), `${canisterName}.wasm`);
+  await fsPromises.mkdir(path.dirname(target), { recursive: true });
+  await fsPromises.writeFile(target, wasm);
+  const canister = getSessionCanister(session, canisterName);
+  canister.wasmHash = crypto.createHash('sha256').update(wasm).digest('hex');
+  canister.wasmPath = target;
+}
+
+/**
+ * Lists all sessions of a workspace, oldest first
+ */
+export async function listSessions(projectPath: string): Promise<ConversionSession[]> {
+  const sessionsDir = getSessionsDir(projectPath);
+  if (!fs.existsSync(sessionsDir)) {
+    return [];
+  }
+
+  const sessions: ConversionSession[] = [];
+  for (const entry of (await fsPromises.readdir(sessionsDir)).sort()) {
+    const sessionFile = path.join(sessionsDir, entry, 'session.json');
+    if (fs.existsSync(sessionFile)) {
+      sessions.push(JSON.parse(await fsPromises.readFile(sessionFile, 'utf8')));
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Gets the network a session deployed to
+ */
+export function getSessionNetwork(session: ConversionSession): string {
+  return session.network ?? LOCAL_NETWORK;
+}
+
+function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Finds the most recent session that has not been undone, together with the wasm module
+ * each of its canisters ran before it, where one was kept and is still intact
+ * @returns The session and the previous module path per canister name
+ */
+export async function findLastSession(projectPath: string): Promise<{
+  session: ConversionSession;
+  previousModules: Map<string, string>;
+} | undefined> {
+  const active = (await listSessions(projectPath)).filter(s => !s.undoneAt);
+  const session = active[active.length - 1];
+  if (!session) {
+    return undefined;
+  }
+
+  // Canister IDs are per network, so only earlier deploys to the same network count
+  const network = getSessionNetwork(session);
+  const previousModules = new Map<string, string>();
+  for (const canister of session.canisters) {
+    const previous = active
+      .slice(0, -1)
+      .filter(s => getSessionNetwork(s) === network)
+      .reverse()
+      .map(s => s.canisters.find(c => c.name === canister.name && c.id === canister.id && c.wasmPath))
+      .find(Boolean);
+    if (previous?.wasmPath && fs.existsSync(previous.wasmPath) && hashFile(previous.wasmPath) === previous.wasmHash) {
+      previousModules.set(canister.name, previous.wasmPath);
+    }
+  }
+  return { session, previousModules };
+}
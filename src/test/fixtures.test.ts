@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getFixturePath, hashPrompt, withFixtures } from '../fixtures';
+import { LlmProvider } from '../llm';
+
+function createProvider(responses: string[]): LlmProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    name: 'local',
+    model: 'scripted',
+    prompts,
+    async complete(prompt: string): Promise<string> {
+      prompts.push(prompt);
+      const response = responses.shift();
+      if (response === undefined) {
+        throw new Error('No scripted response left');
+      }
+      return response;
+    }
+  };
+}
+
+test('record saves each prompt and response under the hash of the prompt', async () => {
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'icpilot-fixtures-'));
+  const recorder = withFixtures(createProvider(['{"a":1}']), 'record', fixtureDir);
+
+  assert.equal(await recorder.complete('prompt'), '{"a":1}');
+
+  const fixture = JSON.parse(fs.readFileSync(getFixturePath(fixtureDir, 'prompt'), 'utf8'));
+  assert.equal(fixture.promptHash, hashPrompt('prompt'));
+  assert.equal(fixture.prompt, 'prompt');
+  assert.equal(fixture.response, '{"a":1}');
+  assert.equal(fixture.provider, 'local');
+});
+
+test('replay serves the recorded response without calling the provider', async () => {
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'icpilot-fixtures-'));
+  await withFixtures(createProvider(['recorded']), 'record', fixtureDir).complete('prompt');
+  const provider = createProvider([]);
+
+  assert.equal(await withFixtures(provider, 'replay', fixtureDir).complete('prompt'), 'recorded');
+  assert.deepEqual(provider.prompts, []);
+});
+
+test('replay fails for a prompt that was never recorded', async () => {
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'icpilot-fixtures-'));
+  const provider = createProvider(['live']);
+
+  await assert.rejects(withFixtures(provider, 'replay', fixtureDir).complete('prompt'), /No recorded LLM response/);
+  assert.deepEqual(provider.prompts, []);
+});
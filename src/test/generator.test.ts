@@ -0,0 +1,79 @@
+import { before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { ClientCanisterTarget } from '../candid';
+import { generateCanisterCode, modifyClientCode } from '../generator';
+import { settings } from './vscode';
+
+// Responses recorded under src/test/fixtures; a changed prompt has no recording and fails the test
+before(() => {
+  Object.assign(settings, {
+    'icpilot.llm.provider': 'local',
+    'icpilot.llm.model': 'scripted',
+    'icpilot.llm.fixtureMode': 'replay',
+    'icpilot.llm.fixtureDirectory': path.resolve(__dirname, '../../src/test/fixtures')
+  });
+});
+
+const TODO_CODE = `const todos = [];
+
+export function listTodos() {
+  return todos;
+}
+
+export function addTodo(item) {
+  todos.push(item);
+}
+`;
+
+const EXISTING_TODO_CANISTER = `actor Todo {
+  stable var todos : [Text] = [];
+
+  public query func listTodos() : async [Text] {
+    todos
+  };
+};
+`;
+
+test('a fenced response is parsed and merged into the existing canister, keeping its declarations on conflict', async () => {
+  const result = await generateCanisterCode(TODO_CODE, undefined, false, 'Todo', EXISTING_TODO_CANISTER);
+
+  assert.equal(result.canisterName, 'Todo');
+  assert.match(result.canisterCode, /import Array "mo:base\/Array";/);
+  assert.match(result.canisterCode, /public query func listTodos\(\) : async \[Text\]/);
+  assert.doesNotMatch(result.canisterCode, /subArray/);
+  assert.match(result.canisterCode, /public func addTodo\(item : Text\) : async \(\)/);
+  assert.equal((result.canisterCode.match(/func listTodos/g) ?? []).length, 1);
+  assert.deepEqual(result.mergeConflicts.map(conflict => conflict.name), ['listTodos']);
+});
+
+test('a response that is not JSON is sent back with the parse error until one validates', async () => {
+  const result = await generateCanisterCode('let count = 0;\nexport const increment = () => ++count;\n', undefined, false, 'Counter');
+
+  assert.equal(result.canisterName, 'Counter');
+  assert.match(result.canisterCode, /stable var count : Nat = 0;/);
+  assert.deepEqual(result.mergeConflicts, []);
+});
+
+test('client code reads the agent and canister ID from the config and imports the generated bindings', async () => {
+  const target: ClientCanisterTarget = {
+    canisterName: 'Todo',
+    canisterId: 'bkyz2-fmaaa-aaaaa-qaaaq-cai',
+    bindings: {
+      candid: 'service : {\n  addTodo : (text) -> ();\n  listTodos : () -> (vec text) query;\n}',
+      idlFactoryImport: './declarations/Todo/Todo.did.js',
+      serviceTypeImport: './declarations/Todo/Todo.did',
+      typescript: false,
+      configImport: './declarations/icpilot-env.js'
+    }
+  };
+
+  const code = await modifyClientCode(TODO_CODE, [target]);
+
+  assert.match(code, /import \{ idlFactory as todoIdlFactory \} from "\.\/declarations\/Todo\/Todo\.did\.js";/);
+  assert.match(code, /import \{ getCanisterId, createAgent \} from "\.\/declarations\/icpilot-env\.js";/);
+  assert.match(code, /const agent = createAgent\(\);/);
+  assert.match(code, /canisterId: getCanisterId\("Todo"\)/);
+  assert.doesNotMatch(code, /HttpAgent|fetchRootKey|127\.0\.0\.1/);
+  assert.doesNotMatch(code, new RegExp(target.canisterId));
+});
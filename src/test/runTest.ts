@@ -0,0 +1,14 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+// The tested modules import vscode, which only the extension host provides
+const resolveFilename = (Module as any)._resolveFilename;
+(Module as any)._resolveFilename = function (request: string, ...rest: unknown[]) {
+  return request === 'vscode' ? require.resolve('./vscode') : resolveFilename.call(this, request, ...rest);
+};
+
+// node:test runs the suites once they are loaded and fails the process if any test fails
+for (const file of fs.readdirSync(__dirname).filter(name => name.endsWith('.test.js')).sort()) {
+  require(path.join(__dirname, file));
+}
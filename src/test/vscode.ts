@@ -0,0 +1,17 @@
+/**
+ * The part of the VS Code API the tested modules reach, so the tests run in plain Node
+ * without an extension host. Settings are read from `settings`, keyed `<section>.<name>`.
+ */
+export const settings: Record<string, unknown> = {};
+
+export const workspace = {
+  workspaceFolders: undefined,
+  getConfiguration(section: string) {
+    return {
+      get<T>(name: string, defaultValue: T): T {
+        const key = `${section}.${name}`;
+        return key in settings ? settings[key] as T : defaultValue;
+      }
+    };
+  }
+};
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { getDeploySettings } from './config';
+
+const execPromise = promisify(exec);
+
+/**
+ * The Motoko compiler ICPilot checks canisters with, and the dfx it belongs to
+ */
+export interface MotokoToolchain {
+  /** Version printed by `dfx --version`, if dfx runs */
+  dfxVersion?: string;
+  /** Cache directory of the active dfx version, from `dfx cache show` */
+  cacheDir?: string;
+  /** Path of moc; empty if none was found */
+  mocPath: string;
+  mocVersion?: string;
+  /** Whether moc comes from `icpilot.deploy.mocPath` rather than the dfx cache */
+  configured: boolean;
+  /** Directory of the `base` package passed to moc, if it exists */
+  basePackagePath?: string;
+  /** Default dfx version of dfxvm, when dfx is managed by dfxvm */
+  dfxvmDefault?: string;
+  /** Inconsistencies between the pieces above, worded for the user */
+  mismatches: string[];
+}
+
+async function run(command: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execPromise(command);
+    return stdout.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseVersion(output: string | undefined): string | undefined {
+  return output?.match(/(\d+\.\d+\.\d+(?:-[\w.]+)?)/)?.[1];
+}
+
+/**
+ * Cache directories dfx versions are installed to, for when `dfx cache show` is unavailable
+ */
+function getCacheCandidates(dfxVersion: string): string[] {
+  const home = os.homedir();
+  return [
+    path.join(home, '.cache', 'dfinity', 'versions', dfxVersion),
+    path.join(home, 'Library', 'Caches', 'dfinity', 'versions', dfxVersion),
+    path.join(home, '.local', 'share', 'dfx', 'versions', dfxVersion)
+  ];
+}
+
+/**
+ * Finds the moc of the active dfx version, or the one configured in `icpilot.deploy.mocPath`.
+ * dfx installed through dfxvm resolves the same way, since `dfx` is then dfxvm's proxy.
+ */
+export async function resolveMotokoToolchain(): Promise<MotokoToolchain> {
+  const mismatches: string[] = [];
+  const dfxVersion = parseVersion(await run('dfx --version'));
+  const dfxvmDefault = parseVersion(await run('dfxvm default'));
+
+  let cacheDir = await run('dfx cache show');
+  if (!cacheDir && dfxVersion) {
+    cacheDir = getCacheCandidates(dfxVersion).find(candidate => fs.existsSync(candidate));
+  }
+  const cachedMoc = cacheDir ? path.join(cacheDir, 'moc') : undefined;
+  if (cacheDir && !fs.existsSync(cachedMoc!)) {
+    mismatches.push(`The cache of dfx ${dfxVersion ?? ''} at ${cacheDir} has no moc. Run "dfx cache install".`);
+  }
+
+  const configuredMoc = getDeploySettings().mocPath;
+  let mocPath = configuredMoc || (cachedMoc && fs.existsSync(cachedMoc) ? cachedMoc : '');
+  if (configuredMoc && !fs.existsSync(configuredMoc)) {
+    mismatches.push(`icpilot.deploy.mocPath points at ${configuredMoc}, which does not exist.`);
+    mocPath = '';
+  }
+  const mocVersion = mocPath ? parseVersion(await run(`"${mocPath}" --version`)) : undefined;
+
+  if (configuredMoc && mocPath && cachedMoc && fs.existsSync(cachedMoc)) {
+    const cachedMocVersion = parseVersion(await run(`"${cachedMoc}" --version`));
+    if (cachedMocVersion && mocVersion && cachedMocVersion !== mocVersion) {
+      mismatches.push(
+        `icpilot.deploy.mocPath is moc ${mocVersion}, but dfx ${dfxVersion ?? ''} builds canisters with moc ${cachedMocVersion}. ` +
+        'Code that passes ICPilot\'s check may still fail to deploy.'
+      );
+    }
+  }
+
+  if (dfxvmDefault && dfxVersion && dfxvmDefault !== dfxVersion) {
+    mismatches.push(
+      `dfx ${dfxVersion} is active but the dfxvm default is ${dfxvmDefault}, e.g. because of DFX_VERSION or the "dfx" field of dfx.json.`
+    );
+  }
+
+  const basePackagePath = cacheDir && fs.existsSync(path.join(cacheDir, 'base')) ? path.join(cacheDir, 'base') : undefined;
+  if (mocPath && !basePackagePath) {
+    mismatches.push('The Motoko base package was not found in the dfx cache, so canisters importing "mo:base/..." cannot be checked.');
+  }
+
+  return {
+    dfxVersion,
+    cacheDir,
+    mocPath,
+    mocVersion,
+    configured: Boolean(configuredMoc),
+    basePackagePath,
+    dfxvmDefault,
+    mismatches
+  };
+}
+
+function getMocCommand(toolchain: MotokoToolchain, args: string): string {
+  if (!toolchain.mocPath) {
+    throw new Error('No Motoko compiler found. Install dfx, run "dfx cache install" or set icpilot.deploy.mocPath.');
+  }
+  const packages = toolchain.basePackagePath ? ` --package base "${toolchain.basePackagePath}"` : '';
+  return `"${toolchain.mocPath}"${packages} ${args}`;
+}
+
+/**
+ * Builds the command that type-checks a Motoko file the way dfx compiles it, with the base package
+ */
+export function getMocCheckCommand(toolchain: MotokoToolchain, moFile: string): string {
+  return getMocCommand(toolchain, `"${moFile}" --check`);
+}
+
+/**
+ * Builds the commands that write the Candid interface (`<outputBase>.did`) and the stable
+ * signature (`<outputBase>.most`) of a Motoko canister
+ */
+export function getMocInterfaceCommands(toolchain: MotokoToolchain, moFile: string, outputBase: string): string[] {
+  return [
+    getMocCommand(toolchain, `--idl "${moFile}" -o "${outputBase}.did"`),
+    getMocCommand(toolchain, `--stable-types "${moFile}" -o "${outputBase}.wasm"`)
+  ];
+}
+
+/**
+ * Builds the command that checks whether the stable variables of a deployed canister
+ * (`oldMostFile`) can be carried over into a new version (`newMostFile`)
+ */
+export function getStableCompatibleCommand(toolchain: MotokoToolchain, oldMostFile: string, newMostFile: string): string {
+  return getMocCommand(toolchain, `--stable-compatible "${oldMostFile}" "${newMostFile}"`);
+}
+
+/**
+ * Describes the toolchain in one line for status messages
+ */
+export function describeToolchain(toolchain: MotokoToolchain): string {
+  const dfx = toolchain.dfxVersion ? `dfx ${toolchain.dfxVersion}${toolchain.dfxvmDefault ? ' (dfxvm)' : ''}` : 'dfx not found';
+  const moc = toolchain.mocPath
+    ? `moc ${toolchain.mocVersion ?? 'of unknown version'} at ${toolchain.mocPath}${toolchain.configured ? ' (icpilot.deploy.mocPath)' : ''}`
+    : 'no moc';
+  return `${dfx}, ${moc}`;
+}
@@ -3,9 +3,15 @@
 declare module 'recast' {
   export function parse(code: string, options?: any): any;
   export function print(ast: any): { code: string };
+  export function visit(ast: any, methods: Record<string, (this: any, path: any) => any>): any;
+  export const types: { builders: any; namedTypes: any };
   // Add other necessary type declarations as needed
 }
 
+declare module 'recast/parsers/babel-ts' {
+  export function parse(code: string, options?: any): any;
+}
+
 declare module 'esprima' {
   export interface Node {
     type: string;
@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { checkCandidUpgrade } from './candid-subtype';
+import { execLogged, log } from './logger';
+import { getMocInterfaceCommands, getStableCompatibleCommand, MotokoToolchain } from './toolchain';
+
+const fsPromises = fs.promises;
+
+/**
+ * What an upgrade has to stay compatible with: the Candid interface clients call and the
+ * signature of the stable variables whose data is carried over
+ */
+export interface CanisterInterfaces {
+  candid?: string;
+  /** Contents of a `.most` file */
+  stableTypes?: string;
+}
+
+async function readMetadata(icProjectDir: string, canisterName: string, network: string, name: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execLogged(
+      `dfx canister metadata ${canisterName} ${name} --network ${network}`,
+      { cwd: icProjectDir, maxBuffer: 16 * 1024 * 1024 }
+    );
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the interfaces of the version of a canister that is deployed, from the metadata
+ * dfx and moc embed in its module
+ */
+export async function readDeployedInterfaces(icProjectDir: string, canisterName: string, network: string): Promise<CanisterInterfaces> {
+  return {
+    candid: await readMetadata(icProjectDir, canisterName, network, 'candid:service'),
+    stableTypes: await readMetadata(icProjectDir, canisterName, network, 'motoko:stable-types')
+  };
+}
+
+/**
+ * Compiles the interfaces of a Motoko canister that is about to be deployed
+ */
+export async function compileInterfaces(toolchain: MotokoToolchain, moFile: string, projectDir: string): Promise<CanisterInterfaces> {
+  const outputDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'icpilot-upgrade-'));
+  const outputBase = path.join(outputDir, path.basename(moFile, '.mo'));
+  try {
+    for (const command of getMocInterfaceCommands(toolchain, moFile, outputBase)) {
+      await execLogged(command, { cwd: projectDir }, 'moc');
+    }
+    return {
+      candid: await fsPromises.readFile(`${outputBase}.did`, 'utf8'),
+      stableTypes: await fsPromises.readFile(`${outputBase}.most`, 'utf8')
+    };
+  } finally {
+    await fsPromises.rm(outputDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Reads the custom sections of a wasm module by name
+ */
+function readWasmCustomSections(wasm: Buffer): Map<string, Buffer> {
+  const sections = new Map<string, Buffer>();
+  if (wasm.length < 8 || wasm.readUInt32BE(0) !== 0x0061736d) {
+    throw new Error('Not a WebAssembly module');
+  }
+  let pos = 8;
+  const readUnsigned = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = wasm[pos++];
+      result += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  };
+  while (pos < wasm.length) {
+    const id = wasm[pos++];
+    const size = readUnsigned();
+    const end = pos + size;
+    if (id === 0) {
+      const nameLength = readUnsigned();
+      const name = wasm.toString('utf8', pos, pos + nameLength);
+      sections.set(name, wasm.subarray(pos + nameLength, end));
+    }
+    pos = end;
+  }
+  return sections;
+}
+
+/**
+ * Reads the interfaces embedded in a built wasm module, e.g. one kept by an earlier conversion
+ */
+export async function readWasmInterfaces(wasmPath: string): Promise<CanisterInterfaces> {
+  let wasm = await fsPromises.readFile(wasmPath);
+  if (wasm[0] === 0x1f && wasm[1] === 0x8b) {
+    wasm = zlib.gunzipSync(wasm);
+  }
+  const sections = readWasmCustomSections(wasm);
+  // dfx marks metadata public or private; either way it is the canister's own
+  const read = (name: string) => (sections.get(`icp:public ${name}`) ?? sections.get(`icp:private ${name}`))?.toString('utf8');
+  return { candid: read('candid:service'), stableTypes: read('motoko:stable-types') };
+}
+
+/**
+ * Checks that upgrading a canister from its deployed version keeps its stable data and its clients
+ * working: the stable signatures must be compatible according to moc, and the new Candid interface
+ * must be a subtype of the old one. Whatever cannot be read on both sides is logged and skipped.
+ * @param checkCandid Whether to check the Candid interface; rollbacks skip it, since going back
+ * to an earlier version removes the methods added since
+ * @returns One explanation per problem; empty if the upgrade is safe
+ */
+export async function checkUpgradeCompatibility(
+  toolchain: MotokoToolchain,
+  canisterName: string,
+  deployed: CanisterInterfaces,
+  next: CanisterInterfaces,
+  checkCandid = true
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  if (deployed.stableTypes && next.stableTypes) {
+    const checkDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'icpilot-stable-'));
+    const oldMostFile = path.join(checkDir, 'deployed.most');
+    const newMostFile = path.join(checkDir, 'new.most');
+    try {
+      await fsPromises.writeFile(oldMostFile, deployed.stableTypes);
+      await fsPromises.writeFile(newMostFile, next.stableTypes);
+      await execLogged(getStableCompatibleCommand(toolchain, oldMostFile, newMostFile), {}, 'moc');
+    } catch (error) {
+      const { stdout = '', stderr = '' } = error as { stdout?: string; stderr?: string };
+      const output = `${stdout}\n${stderr}`.trim() || (error instanceof Error ? error.message : String(error));
+      problems.push(...output.split(/\r?\n/).filter(Boolean).map(line => `Stable state: ${line.replace(/^.*?\.most:\s*/, '')}`));
+    } finally {
+      await fsPromises.rm(checkDir, { recursive: true, force: true });
+    }
+  } else {
+    log(`The stable variables of ${canisterName} could not be checked: ${deployed.stableTypes ? 'the new version' : 'the deployed canister'} has no stable signature`);
+  }
+
+  if (!checkCandid) {
+    log(`Skipping the Candid interface check of ${canisterName}`);
+  } else if (deployed.candid && next.candid) {
+    try {
+      problems.push(...checkCandidUpgrade(deployed.candid, next.candid).map(problem => `Candid interface: ${problem}`));
+    } catch (error) {
+      log(`The Candid interface of ${canisterName} could not be checked:`, error);
+    }
+  } else {
+    log(`The Candid interface of ${canisterName} could not be checked: ${deployed.candid ? 'the new version' : 'the deployed canister'} has none`);
+  }
+
+  return problems;
+}
+
+/**
+ * Explains why an upgrade was refused
+ */
+export function describeUpgradeProblems(canisterName: string, network: string, problems: string[]): string {
+  return `Refusing to upgrade ${canisterName} on ${network}: the new version ` +
+    'would lose stored data or break existing clients. ' +
+    `${problems.join('; ')}. Keep existing stable variables and public methods with compatible types, ` +
+    'add new ones instead, or deploy under a new canister name.';
+}